@@ -0,0 +1,56 @@
+'use strict'
+
+/*
+ * adonis-framework
+ *
+ * (c) Harminder Virk <virk@adonisjs.com>
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+*/
+
+const Benchmark = require('benchmark')
+const suite = new Benchmark().Suite
+const Route = require('../src/Route')
+const helpers = require('../src/Route/helpers')
+
+function registerRoutes () {
+  for (let i = 0; i < 100; i++) {
+    Route.get(`/page-${i}`, function * () {})
+    Route.get(`/users-${i}/:id`, function * () {})
+    Route.resource(`posts-${i}`, 'PostsController').only('index', 'store', 'show', 'update')
+  }
+}
+
+function linearScanFirst () {
+  helpers.returnMatchingRouteToUrl(Route.routes(), '/page-0', 'GET')
+}
+
+function linearScanLast () {
+  helpers.returnMatchingRouteToUrl(Route.routes(), '/posts-99/1', 'PUT')
+}
+
+function matcherFirst () {
+  Route.resolve('/page-0', 'GET', 'localhost')
+}
+
+function matcherLast () {
+  Route.resolve('/posts-99/1', 'PUT', 'localhost')
+}
+
+function matcherMissing () {
+  Route.resolve('/unknown/route', 'GET', 'localhost')
+}
+
+registerRoutes()
+
+suite
+.add('linearScanFirst', linearScanFirst)
+.add('linearScanLast', linearScanLast)
+.add('matcherFirst', matcherFirst)
+.add('matcherLast', matcherLast)
+.add('matcherMissing', matcherMissing)
+.on('cycle', (event) => {
+  console.log(String(event.target))
+})
+.run()
@@ -0,0 +1,27 @@
+'use strict'
+
+/**
+ * adonis-framework
+ *
+ * (c) Harminder Virk <virk@adonisjs.com>
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+*/
+
+const ServiceProvider = require('adonis-fold').ServiceProvider
+
+class ImageProvider extends ServiceProvider {
+
+  * register () {
+    const Image = require('../src/Image')
+    this.app.singleton('Adonis/Src/Image', function (app) {
+      const Config = app.use('Adonis/Src/Config')
+      return new Image(Config)
+    })
+
+    this.app.manager('Adonis/Src/Image', Image)
+  }
+}
+
+module.exports = ImageProvider
@@ -14,6 +14,11 @@ class MiddlewareProvider extends ServiceProvider {
     this.app.bind('Adonis/Src/Middleware', function () {
       return require('../src/Middleware')
     })
+
+    this.app.bind('Adonis/Middleware/Signed', function () {
+      const Signed = require('../src/Middleware/Signed')
+      return new Signed()
+    })
   }
 }
 
@@ -0,0 +1,32 @@
+'use strict'
+
+/**
+ * adonis-framework
+ *
+ * (c) Harminder Virk <virk@adonisjs.com>
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+*/
+
+const ServiceProvider = require('adonis-fold').ServiceProvider
+
+class ResponseCacheProvider extends ServiceProvider {
+
+  * register () {
+    const ResponseCache = require('../src/ResponseCache')
+    this.app.singleton('Adonis/Src/ResponseCache', function (app) {
+      const Config = app.use('Adonis/Src/Config')
+      return new ResponseCache(Config)
+    })
+
+    this.app.manager('Adonis/Src/ResponseCache', ResponseCache)
+
+    this.app.bind('Adonis/Middleware/Cache', function (app) {
+      const CacheMiddleware = require('../src/Middleware/Cache')
+      return new CacheMiddleware(app.use('Adonis/Src/ResponseCache'))
+    })
+  }
+}
+
+module.exports = ResponseCacheProvider
@@ -14,6 +14,25 @@ class RouteProvider extends ServiceProvider {
     this.app.bind('Adonis/Src/Route', function () {
       return require('../src/Route')
     })
+
+    this.app.singleton('Adonis/Src/RouteCache', function (app) {
+      const Route = app.use('Adonis/Src/Route')
+      const Helpers = app.use('Adonis/Src/Helpers')
+      const RouteCache = require('../src/Route/cache')
+      return new RouteCache(Route, Helpers)
+    })
+
+    this.app.singleton('Adonis/Src/UrlSigner', function (app) {
+      const Config = app.use('Adonis/Src/Config')
+      const Encryption = app.use('Adonis/Src/Encryption')
+      const UrlSigner = require('../src/Route/signer')
+      return new UrlSigner(Config, Encryption)
+    })
+  }
+
+  * boot () {
+    const Config = this.app.use('Adonis/Src/Config')
+    this.app.use('Adonis/Src/Route').strict(Config.get('app.http.strictRoutes', false))
   }
 }
 
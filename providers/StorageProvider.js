@@ -0,0 +1,28 @@
+'use strict'
+
+/**
+ * adonis-framework
+ *
+ * (c) Harminder Virk <virk@adonisjs.com>
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+*/
+
+const ServiceProvider = require('adonis-fold').ServiceProvider
+
+class StorageProvider extends ServiceProvider {
+
+  * register () {
+    const Storage = require('../src/Storage')
+    this.app.singleton('Adonis/Src/Storage', function (app) {
+      const Config = app.use('Adonis/Src/Config')
+      const Helpers = app.use('Adonis/Src/Helpers')
+      return new Storage(Config, Helpers)
+    })
+
+    this.app.manager('Adonis/Src/Storage', Storage)
+  }
+}
+
+module.exports = StorageProvider
@@ -0,0 +1,32 @@
+'use strict'
+
+/**
+ * adonis-framework
+ *
+ * (c) Harminder Virk <virk@adonisjs.com>
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+*/
+
+const ServiceProvider = require('adonis-fold').ServiceProvider
+
+class ThrottleProvider extends ServiceProvider {
+
+  * register () {
+    const Throttle = require('../src/Throttle')
+    this.app.singleton('Adonis/Src/Throttle', function (app) {
+      const Config = app.use('Adonis/Src/Config')
+      return new Throttle(Config)
+    })
+
+    this.app.manager('Adonis/Src/Throttle', Throttle)
+
+    this.app.bind('Adonis/Middleware/Throttle', function (app) {
+      const ThrottleMiddleware = require('../src/Middleware/Throttle')
+      return new ThrottleMiddleware(app.use('Adonis/Src/Throttle'))
+    })
+  }
+}
+
+module.exports = ThrottleProvider
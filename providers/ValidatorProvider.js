@@ -0,0 +1,23 @@
+'use strict'
+
+/**
+ * adonis-framework
+ *
+ * (c) Harminder Virk <virk@adonisjs.com>
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+*/
+
+const ServiceProvider = require('adonis-fold').ServiceProvider
+
+class ValidatorProvider extends ServiceProvider {
+
+  * register () {
+    this.app.bind('Adonis/Src/Validator', function () {
+      return require('../src/Validator')
+    })
+  }
+}
+
+module.exports = ValidatorProvider
@@ -0,0 +1,257 @@
+/**
+ * adonis-framework
+ *
+ * (c) Harminder Virk <virk@adonisjs.com>
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+*/
+
+import * as _ from 'lodash'
+import * as os from 'os'
+import * as qs from 'qs'
+import * as bytes from 'bytes'
+import * as formidable from 'formidable'
+import { Config } from '../Config'
+import { Multipart } from '../Multipart'
+import { HttpException } from '../Exceptions'
+
+/**
+ * default options used when config/bodyParser.js
+ * does not define them.
+ *
+ * @type {Object}
+ */
+const defaultOptions = {
+  json: {
+    limit: '1mb',
+    strict: true,
+    types: ['application/json', '+json']
+  },
+  form: {
+    limit: '1mb',
+    types: ['application/x-www-form-urlencoded']
+  },
+  raw: {
+    limit: '1mb',
+    types: ['text/*']
+  },
+  files: {
+    maxSize: '20mb',
+    uploadDir: os.tmpdir(),
+    stream: false,
+    types: ['multipart/form-data']
+  }
+}
+
+/**
+ * merges options by replacing arrays instead of
+ * merging them by index, so that configured
+ * types replace the default types.
+ *
+ * @param  {Mixed} value
+ * @param  {Mixed} source
+ * @return {Mixed}
+ */
+const replaceArrays = function (value: any, source: any): any {
+  return _.isArray(source) ? source : undefined
+}
+
+/**
+ * Parses request body for json, urlencoded, text and
+ * multipart requests. Parsed values are read using
+ * request.all, request.raw and request.file.
+ *
+ * Multipart requests are left for request.multipart
+ * when files are to be streamed.
+ *
+ * Options are read from config/bodyParser.js file and
+ * can be overridden per route using Route.bodyParser
+ * or Group.bodyParser. Setting bodyParser to false
+ * inside the config disables it for all routes.
+ * @class
+ */
+export class BodyParser {
+  private options: any
+  private enabled: boolean
+
+  constructor (Config: Config) {
+    const options = Config.get('bodyParser')
+    this.enabled = options !== false
+    this.options = _.mergeWith({}, defaultOptions, this.enabled ? options : {}, replaceArrays)
+  }
+
+  /**
+   * returns options to be used for a given route, null
+   * when body parser is disabled for the route.
+   *
+   * @param  {Object|Boolean} [routeOptions]
+   * @return {Object}
+   *
+   * @private
+   */
+  _getOptions (routeOptions?: any): any {
+    if (!this.enabled || routeOptions === false) {
+      return null
+    }
+    return _.mergeWith({}, this.options, routeOptions, replaceArrays)
+  }
+
+  /**
+   * tells whether request stream has already been read
+   * by someone else, like a body parser middleware.
+   *
+   * @param  {Object} req - node request
+   * @return {Boolean}
+   *
+   * @private
+   */
+  _isConsumed (req: any): boolean {
+    const state = req._readableState || {}
+    return !!(req.readableEnded || state.ended || state.flowing !== null)
+  }
+
+  /**
+   * reads request body as a string, making sure it
+   * does not exceed the limit. Body going over the
+   * limit is drained, so that the response can be
+   * written.
+   *
+   * @param  {Object} req - node request
+   * @param  {String|Number} limit
+   * @return {Promise}
+   *
+   * @throws {HttpException} If body exceeds the limit
+   *
+   * @private
+   */
+  _read (req: any, limit: string|number): Promise<string> {
+    const maxLength = typeof (limit) === 'number' ? limit : bytes(limit)
+    return new Promise((resolve, reject) => {
+      const tooLarge = () => {
+        req.removeListener('data', onData)
+        req.resume()
+        reject(new HttpException('Request entity too large', 413))
+      }
+      const chunks = []
+      let length = 0
+      const onData = (chunk) => {
+        length += chunk.length
+        if (length > maxLength) {
+          tooLarge()
+          return
+        }
+        chunks.push(chunk)
+      }
+      if (Number(req.headers['content-length']) > maxLength) {
+        tooLarge()
+        return
+      }
+      req.on('data', onData)
+      req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')))
+      req.on('error', reject)
+    })
+  }
+
+  /**
+   * parses json body. Strict mode only accepts objects
+   * and arrays.
+   *
+   * @param  {String} body
+   * @param  {Object} options
+   * @return {Object}
+   *
+   * @throws {HttpException} If body is not valid json
+   *
+   * @private
+   */
+  _parseJson (body: string, options: any): Object {
+    if (!body.trim()) {
+      return {}
+    }
+    if (options.strict && !/^\s*[\[{]/.test(body)) {
+      throw new HttpException('Invalid JSON body, only objects and arrays are allowed in strict mode', 400)
+    }
+    try {
+      return JSON.parse(body)
+    } catch (e) {
+      throw new HttpException(`Invalid JSON body, ${e.message}`, 400)
+    }
+  }
+
+  /**
+   * parses multipart body using formidable. Field names
+   * are nested the same way as urlencoded keys.
+   *
+   * @param  {Object} req - node request
+   * @param  {Object} options
+   * @return {Promise}
+   *
+   * @private
+   */
+  _parseMultipart (req: any, options: any): Promise<{ fields: Object, files: Object }> {
+    const form = new formidable.IncomingForm()
+    form.multiples = true
+    form.uploadDir = options.uploadDir
+    form.maxFileSize = bytes(options.maxSize)
+    return new Promise((resolve, reject) => {
+      form.parse(req, (error, fields, files) => {
+        if (error) {
+          reject(new HttpException(error.message, /maxFileSize/.test(error.message) ? 413 : 400))
+          return
+        }
+        resolve({ fields: qs.parse(qs.stringify(fields)), files })
+      })
+    })
+  }
+
+  /**
+   * parses body of a given request based upon it's
+   * content type. Requests already read by someone
+   * else are skipped.
+   *
+   * @param  {Object} request
+   * @param  {Object|Boolean} [routeOptions]
+   *
+   * @example
+   * yield BodyParser.parse(request, resolvedRoute.bodyParser)
+   *
+   * @public
+   */
+  * parse (request: any, routeOptions?: any): any {
+    const options = this._getOptions(routeOptions)
+    if (!options || !request.hasBody() || this._isConsumed(request.request)) {
+      return
+    }
+
+    if (request.is(options.files.types) && options.files.stream) {
+      request.multipart = new Multipart(request, options.files)
+      return
+    }
+
+    if (request.is(options.files.types)) {
+      const multipart = yield this._parseMultipart(request.request, options.files)
+      request._body = multipart.fields
+      request._files = multipart.files
+      return
+    }
+
+    if (request.is(options.json.types)) {
+      const body = yield this._read(request.request, options.json.limit)
+      request._raw = body
+      request._body = this._parseJson(body, options.json)
+      return
+    }
+
+    if (request.is(options.form.types)) {
+      const body = yield this._read(request.request, options.form.limit)
+      request._raw = body
+      request._body = qs.parse(body)
+      return
+    }
+
+    if (request.is(options.raw.types)) {
+      request._raw = yield this._read(request.request, options.raw.limit)
+    }
+  }
+}
@@ -0,0 +1,180 @@
+/**
+ * adonis-framework
+ *
+ * (c) Harminder Virk <virk@adonisjs.com>
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+*/
+
+import * as _ from 'lodash'
+import { Config } from '../Config'
+
+/**
+ * default options used when config/cors.js does
+ * not define them.
+ *
+ * @type {Object}
+ */
+const defaultOptions = {
+  origin: false,
+  methods: null,
+  headers: true,
+  exposeHeaders: [],
+  credentials: false,
+  maxAge: 90
+}
+
+/**
+ * Sets Access-Control-* headers for preflight and actual
+ * requests. Options are read from config/cors.js file
+ * and can be overridden per route using Route.cors
+ * or Group.cors.
+ *
+ * origin can be a boolean, a string, an array of
+ * origins or a function receiving the request
+ * origin.
+ * @class
+ */
+export class Cors {
+  private options: any
+
+  constructor (Config: Config) {
+    this.options = _.assign({}, defaultOptions, Config.get('cors'))
+  }
+
+  /**
+   * returns options to be used for a given route, null
+   * when cors is disabled for the route.
+   *
+   * @param  {Object|Boolean} [routeOptions]
+   * @return {Object}
+   *
+   * @private
+   */
+  _getOptions (routeOptions?: any): any {
+    if (routeOptions === false) {
+      return null
+    }
+    return _.assign({}, this.options, routeOptions)
+  }
+
+  /**
+   * returns the value of Access-Control-Allow-Origin
+   * header for a given request origin.
+   *
+   * @param  {String} origin
+   * @param  {Object} options
+   * @return {String|Null}
+   *
+   * @private
+   */
+  _allowedOrigin (origin: string, options: any): string {
+    const allowed = typeof (options.origin) === 'function' ? options.origin(origin) : options.origin
+    if (allowed === true) {
+      return origin
+    }
+    if (allowed === '*') {
+      return options.credentials ? origin : '*'
+    }
+    if (_.isArray(allowed)) {
+      return _.includes(allowed, origin) ? origin : null
+    }
+    return allowed === origin ? origin : null
+  }
+
+  /**
+   * converts an array option to header value
+   *
+   * @param  {Array|String} value
+   * @return {String}
+   *
+   * @private
+   */
+  _toHeader (value: any): string {
+    return _.isArray(value) ? value.join(', ') : value
+  }
+
+  /**
+   * sets headers shared by preflight and actual requests.
+   * Returns false when request origin is not allowed.
+   *
+   * @param  {Object} request
+   * @param  {Object} response
+   * @param  {Object} options
+   * @return {Boolean}
+   *
+   * @private
+   */
+  _setOriginHeaders (request: any, response: any, options: any): boolean {
+    const origin = request.header('Origin')
+    if (!origin || !options) {
+      return false
+    }
+    const allowedOrigin = this._allowedOrigin(origin, options)
+    if (!allowedOrigin) {
+      return false
+    }
+    response.header('Access-Control-Allow-Origin', allowedOrigin)
+    if (allowedOrigin !== '*') {
+      response.vary('Origin')
+    }
+    if (options.credentials) {
+      response.header('Access-Control-Allow-Credentials', 'true')
+    }
+    return true
+  }
+
+  /**
+   * sets cors headers for a preflight request.
+   *
+   * @param  {Object} request
+   * @param  {Object} response
+   * @param  {Array} allowedVerbs - verbs registered for the url
+   * @param  {Object|Boolean} [routeOptions]
+   *
+   * @example
+   * Cors.preflight(request, response, ['GET', 'HEAD'])
+   *
+   * @public
+   */
+  preflight (request: any, response: any, allowedVerbs: Array<string>, routeOptions?: any): void {
+    const options = this._getOptions(routeOptions)
+    if (!this._setOriginHeaders(request, response, options)) {
+      return
+    }
+
+    response.header('Access-Control-Allow-Methods', this._toHeader(options.methods || allowedVerbs))
+
+    const headers = options.headers === true ? request.header('Access-Control-Request-Headers') : options.headers
+    if (!_.isEmpty(headers)) {
+      response.header('Access-Control-Allow-Headers', this._toHeader(headers))
+    }
+
+    if (options.maxAge) {
+      response.header('Access-Control-Max-Age', options.maxAge)
+    }
+  }
+
+  /**
+   * sets cors headers for an actual request.
+   *
+   * @param  {Object} request
+   * @param  {Object} response
+   * @param  {Object|Boolean} [routeOptions]
+   *
+   * @example
+   * Cors.actual(request, response, resolvedRoute.cors)
+   *
+   * @public
+   */
+  actual (request: any, response: any, routeOptions?: any): void {
+    const options = this._getOptions(routeOptions)
+    if (!this._setOriginHeaders(request, response, options)) {
+      return
+    }
+    if (!_.isEmpty(options.exposeHeaders)) {
+      response.header('Access-Control-Expose-Headers', this._toHeader(options.exposeHeaders))
+    }
+  }
+}
@@ -19,7 +19,7 @@ type Utf8AsciiBinaryEncoding = "utf8" | "ascii" | "binary"
  * Not compatible with Laravel because they use serialize()/unserialize()
  * @class
  */
-class Encryption {
+export class Encryption {
   private appKey: string        
   private algorithm: string
 
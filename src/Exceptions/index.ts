@@ -123,6 +123,126 @@ export class RuntimeException extends NE.RuntimeException {
     return new NE.RuntimeException(message, code || this.defaultErrorCode, 'E_MISSING_APPKEY')
   }
 
+  /**
+   * this exception is raised when a route name has
+   * already been given to another route
+   *
+   * @param  {String} name
+   * @param  {Number} [code=500]
+   *
+   * @return {Object}
+   */
+  static duplicateRouteName (name: string, code?: number): Object {
+    return new NE.RuntimeException(`Route name ${name} has already been given to another route`, code || this.defaultErrorCode, 'E_DUPLICATE_ROUTE_NAME')
+  }
+
+  /**
+   * this exception is raised when a route with the
+   * same verb and pattern has already been
+   * registered
+   *
+   * @param  {String} verb
+   * @param  {String} route
+   * @param  {Number} [code=500]
+   *
+   * @return {Object}
+   */
+  static duplicateRoute (verb: string, route: string, code?: number): Object {
+    return new NE.RuntimeException(`Route ${verb} ${route} has already been registered`, code || this.defaultErrorCode, 'E_DUPLICATE_ROUTE')
+  }
+
+  /**
+   * this exception is raised when an uknown
+   * response cache store is used
+   *
+   * @param  {String} store
+   * @param  {Number} [code=500]
+   *
+   * @return {Object}
+   */
+  static invalidCacheStore (store: string, code?: number): Object {
+    return new NE.RuntimeException(`Unable to locate ${store} cache store`, code || this.defaultErrorCode, 'E_INVALID_CACHE_STORE')
+  }
+
+  /**
+   * this exception is raised when a disk is not
+   * defined inside config/filesystem.js file
+   *
+   * @param  {String} disk
+   * @param  {Number} [code=500]
+   *
+   * @return {Object}
+   */
+  static invalidDisk (disk: string, code?: number): Object {
+    return new NE.RuntimeException(`${disk} disk is not defined inside config/filesystem.js file`, code || this.defaultErrorCode, 'E_INVALID_DISK')
+  }
+
+  /**
+   * this exception is raised when an uknown
+   * storage driver is used
+   *
+   * @param  {String} driver
+   * @param  {Number} [code=500]
+   *
+   * @return {Object}
+   */
+  static invalidStorageDriver (driver: string, code?: number): Object {
+    return new NE.RuntimeException(`Unable to locate ${driver} storage driver`, code || this.defaultErrorCode, 'E_INVALID_STORAGE_DRIVER')
+  }
+
+  /**
+   * this exception is raised when an image preset is
+   * not defined inside config/image.js file
+   *
+   * @param  {String} preset
+   * @param  {Number} [code=500]
+   *
+   * @return {Object}
+   */
+  static invalidImagePreset (preset: string, code?: number): Object {
+    return new NE.RuntimeException(`${preset} preset is not defined inside config/image.js file`, code || this.defaultErrorCode, 'E_INVALID_IMAGE_PRESET')
+  }
+
+  /**
+   * this exception is raised when an uknown
+   * image encoder is used
+   *
+   * @param  {String} encoder
+   * @param  {Number} [code=500]
+   *
+   * @return {Object}
+   */
+  static invalidImageEncoder (encoder: string, code?: number): Object {
+    return new NE.RuntimeException(`Unable to locate ${encoder} image encoder`, code || this.defaultErrorCode, 'E_INVALID_IMAGE_ENCODER')
+  }
+
+  /**
+   * this exception is raised when an uploaded file
+   * is transformed but it's type is not supported
+   * by the image encoder
+   *
+   * @param  {String} mime
+   * @param  {Number} [code=500]
+   *
+   * @return {Object}
+   */
+  static unsupportedImageType (mime: string, code?: number): Object {
+    return new NE.RuntimeException(`Uploaded file type ${mime} cannot be transformed`, code || this.defaultErrorCode, 'E_UNSUPPORTED_IMAGE_TYPE')
+  }
+
+  /**
+   * this exception is raised when an uknown
+   * throttle store is used
+   *
+   * @param  {String} store
+   * @param  {Number} [code=500]
+   *
+   * @return {Object}
+   */
+  static invalidThrottleStore (store: string, code?: number): Object {
+    return new NE.RuntimeException(`Unable to locate ${store} throttle store`, code || this.defaultErrorCode, 'E_INVALID_THROTTLE_STORE')
+  }
+
   /**
    * this exception is raised when an uknown
    * session driver is used
@@ -136,6 +256,19 @@ export class RuntimeException extends NE.RuntimeException {
     return new NE.RuntimeException(`Unable to locate ${driver} session driver`, code || this.defaultErrorCode, 'E_INVALID_SESSION_DRIVER')
   }
 
+  /**
+   * this exception is raised when trying to cache a route
+   * or a route binder making use of closures
+   *
+   * @param  {String} name
+   * @param  {Number} [code=500]
+   *
+   * @return {Object}
+   */
+  static unserializableRoute (name: string, code?: number): Object {
+    return new NE.RuntimeException(`Cannot cache ${name}, since it makes use of closures`, code || this.defaultErrorCode, 'E_UNSERIALIZABLE_ROUTE')
+  }
+
   /**
    * this exception is raised when a named middleware is used
    * but not registered
@@ -205,4 +338,30 @@ export class InvalidArgumentException extends NE.InvalidArgumentException {
 
 }
 
-export class HttpException extends NE.HttpException {}
\ No newline at end of file
+/**
+ * raised when a request cannot be served, status is
+ * used as the response status code.
+ * @class
+ */
+export class HttpException extends NE.HttpException {
+  constructor (message: string, status?: number, code?: string) {
+    super(message, status, code)
+  }
+}
+
+/**
+ * raised by request.validate when data does not
+ * satisfy the rules. Holds the error bag and the
+ * url to redirect to for html requests.
+ * @class
+ */
+export class ValidationException extends NE.HttpException {
+  public errors: Object
+  public redirectTo: string
+
+  constructor (errors: Object, redirectTo?: string) {
+    super('Validation failed', 422, 'E_VALIDATION_FAILED')
+    this.errors = errors
+    this.redirectTo = redirectTo || null
+  }
+}
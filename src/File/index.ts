@@ -8,7 +8,12 @@
 */
 import * as path from 'path'
 import { fs } from 'co-fs-extra'
+import { createReadStream } from 'fs'
+import { Readable } from 'stream'
+import { Ioc } from 'adonis-fold'
 import * as bytes from 'bytes'
+import { detect, isText, isTextMime, normalizeMime, signatureLength, DetectedType } from './signatures'
+import { TransformOptions } from '../Image'
 import { RuntimeException, InvalidArgumentException, HttpException }  from '../Exceptions'
 
 /**
@@ -23,14 +28,18 @@ export class File {
   private _deleted: boolean
   private _error: any
   private _fileName: string
-  private _maxSize: string
+  private _maxSize: number
   private _allowedExtensions: Array<string>
+  private _allowedTypes: Array<string>
+  private _allowedMimes: Array<string>
   private _filePath: string
   private _file: Object
   private _name: string
   private _type: string
-  private _size: string
+  private _size: number
   private _path: string
+  private _variants: Object
+  protected transformOptions: TransformOptions
 
   constructor (formidableObject: Object, options: any) {
     this.options = options || {}
@@ -39,9 +48,13 @@ export class File {
     this.deleted = false
     this.error = null
     this.fileName = ''
-    this.maxSize = options.maxSize ? bytes(options.maxSize) : null
+    this.maxSize = typeof (options.maxSize) === 'string' ? bytes(options.maxSize) : (options.maxSize || null)
     this.allowedExtensions = options.allowedExtensions || []
+    this.allowedTypes = options.allowedTypes || []
+    this.allowedMimes = options.allowedMimes || []
     this.filePath = ''
+    this.transformOptions = null
+    this._variants = {}
   }
 
   /**
@@ -115,7 +128,106 @@ export class File {
   }
 
   /**
-   * a method to validate a given file.
+   * tells whether file contents have to be validated
+   *
+   * @return {Boolean}
+   *
+   * @private
+   */
+  _hasContentRules (): boolean {
+    return this.allowedTypes.length > 0 || this.allowedMimes.length > 0
+  }
+
+  /**
+   * returns leading bytes of the file to detect
+   * it's type
+   *
+   * @return {Promise}
+   *
+   * @private
+   */
+  _leadingBytes (): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const chunks = []
+      const stream = createReadStream(this.tmpPath(), { start: 0, end: signatureLength - 1 })
+      stream.on('data', (chunk) => chunks.push(chunk))
+      stream.on('end', () => resolve(Buffer.concat(chunks)))
+      stream.on('error', reject)
+    })
+  }
+
+  /**
+   * returns error for leading bytes not satisfying
+   * allowedTypes and allowedMimes, or disagreeing
+   * with the declared mime type and extension.
+   * Text files have no signature and are checked
+   * using the declared mime type, only when it is
+   * a text type itself.
+   *
+   * @param  {Buffer} leadingBytes
+   *
+   * @return {String} - null when content is valid
+   *
+   * @private
+   */
+  _contentErrorFor (leadingBytes: Buffer): string {
+    const detected = detect(leadingBytes)
+    const declaredMime = normalizeMime(this.mimeType())
+    const isDeclared = !!declaredMime && declaredMime !== 'application/octet-stream'
+    if (!detected && (!isTextMime(declaredMime) || !isText(leadingBytes))) {
+      return 'Uploaded file type could not be detected from it\'s contents'
+    }
+
+    if (detected && isDeclared && declaredMime !== detected.mime) {
+      return `Uploaded file is declared as ${this.mimeType()} but detected as ${detected.mime}`
+    }
+    if (detected && this.extension() && detected.extensions.indexOf(this.extension().toLowerCase()) === -1) {
+      return `Uploaded file is declared as .${this.extension()} but detected as ${detected.mime}`
+    }
+
+    const mime = detected ? detected.mime : declaredMime
+    const allowedType = !this.allowedTypes.length || this.allowedTypes.indexOf(mime.split('/')[0]) > -1
+    const allowedMime = !this.allowedMimes.length || this.allowedMimes.map(normalizeMime).indexOf(mime) > -1
+    if (!allowedType || !allowedMime) {
+      return `Uploaded file type ${mime} is not valid`
+    }
+    return null
+  }
+
+  /**
+   * returns error for file content not satisfying
+   * allowedTypes and allowedMimes.
+   *
+   * @return {String} - null when content is valid
+   *
+   * @private
+   */
+  * _contentError (): any {
+    if (!this._hasContentRules()) {
+      return null
+    }
+    return this._contentErrorFor(yield this._leadingBytes())
+  }
+
+  /**
+   * returns type of the file detected from it's contents,
+   * null when type is unknown.
+   *
+   * @return {Object} - mime and extensions
+   *
+   * @example
+   * yield file.detectedType() // => {mime: 'image/png', extensions: ['png']}
+   *
+   * @public
+   */
+  * detectedType (): any {
+    return detect(yield this._leadingBytes())
+  }
+
+  /**
+   * a method to validate a given file extension and size.
+   * File contents have to be read and are validated
+   * by validateContents, which is also used on move.
    *
    * @return {Boolean}
    */
@@ -123,13 +235,40 @@ export class File {
     if (!this._hasValidExtension()) {
       this._setFileExtensionError()
       return false
-    } else if (!this._underAllowedSize()) {
+    }
+    if (!this._underAllowedSize()) {
       this._setFileSizeExceedsError()
       return false
     }
     return true
   }
 
+  /**
+   * validates the file and it's contents, where file type
+   * is detected from it's leading bytes when
+   * allowedTypes or allowedMimes are defined.
+   *
+   * @return {Boolean}
+   *
+   * @example
+   * if (!(yield file.validateContents())) {
+   *   file.errors()
+   * }
+   *
+   * @public
+   */
+  * validateContents (): any {
+    if (!this.validate()) {
+      return false
+    }
+    const contentError = yield this._contentError()
+    if (contentError) {
+      this._setError(contentError)
+      return false
+    }
+    return true
+  }
+
   /**
    * validates the file size and move it to the destination
    *
@@ -139,9 +278,12 @@ export class File {
    * @private
    */
   * _validateAndMove (fileName, completePath) {
-    if (!this.validate()) {
+    if (!(yield this.validateContents())) {
       return
     }
+    if (this.transformOptions) {
+      return yield this._moveTransformedToDirectory(fileName, path.dirname(completePath))
+    }
     try {
       yield fs.move(this.tmpPath(), completePath)
       this._setUploadedFile(fileName, completePath)
@@ -166,11 +308,209 @@ export class File {
     if (this.deleted === true) {
       throw RuntimeException.fileDeleted()
     }
-    name = name || this.clientName()
+    name = name || path.basename(this.clientName())
     const uploadingFileName = `${toPath}/${name}`
     return this._validateAndMove(name, uploadingFileName)
   }
 
+  /**
+   * returns contents of the file to be written
+   * to a disk
+   *
+   * @return {Object}
+   *
+   * @private
+   */
+  _contents (): Readable {
+    return createReadStream(this.tmpPath())
+  }
+
+  /**
+   * moves uploaded file to a location of the disk defined
+   * inside config/filesystem.js file.
+   *
+   * @param  {String} toPath - location inside the disk
+   * @param  {String} [name]
+   * @param  {String} [disk] - defaults to filesystem.default
+   * @return {StoredFile} - null when file was not moved
+   *
+   * @example
+   * const avatar = yield file.moveToDisk('avatars', `${user.id}.png`, 's3')
+   * avatar.url()
+   *
+   * @public
+   */
+  * moveToDisk (toPath: string, name?: string, disk?: string): any {
+    if (this.deleted === true) {
+      throw RuntimeException.fileDeleted()
+    }
+    name = name || path.basename(this.clientName())
+    if (!(yield this.validateContents())) {
+      return null
+    }
+    const Storage = Ioc.use('Adonis/Src/Storage')
+    const location = path.posix.join(toPath, name)
+    try {
+      if (this.transformOptions) {
+        yield this._moveTransformed(name, function * (fileName, contents) {
+          const fileLocation = path.posix.join(toPath, fileName)
+          yield Storage.disk(disk).put(fileLocation, contents)
+          return fileLocation
+        })
+      } else {
+        yield Storage.disk(disk).put(location, this._contents())
+      }
+    } catch (error) {
+      this._setError(this.errors() || error.message)
+      return null
+    }
+    if (this.tmpPath()) {
+      yield fs.remove(this.tmpPath())
+    }
+    if (!this.transformOptions) {
+      this._setUploadedFile(name, location)
+    }
+    return Storage.file(this.uploadPath(), disk)
+  }
+
+  /**
+   * transforms the image using a preset defined inside
+   * config/image.js file or inline options. Original
+   * and it's variants are written on move.
+   *
+   * @param  {String|Object} preset
+   *
+   * @return {File}
+   *
+   * @example
+   * yield file.transform('avatar').move(Helpers.storagePath('avatars'))
+   * file.variants().thumb.path
+   *
+   * @public
+   */
+  transform (preset: string|TransformOptions): File {
+    this.transformOptions = typeof (preset) === 'string' ? Ioc.use('Adonis/Src/Image').preset(preset) : preset
+    return this
+  }
+
+  /**
+   * returns variants written after moving a transformed
+   * image, keyed by the variant name
+   *
+   * @return {Object}
+   *
+   * @example
+   * file.variants() // => {thumb: {name, path, width, height, mime, size}}
+   *
+   * @public
+   */
+  variants (): Object {
+    return this._variants
+  }
+
+  /**
+   * reads contents of the file to a buffer
+   *
+   * @return {Promise}
+   *
+   * @private
+   */
+  _readContents (): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const chunks = []
+      const stream = this._contents()
+      stream.on('data', (chunk) => chunks.push(chunk))
+      stream.on('end', () => resolve(Buffer.concat(chunks)))
+      stream.on('error', reject)
+    })
+  }
+
+  /**
+   * returns name of the transformed file by suffixing the
+   * variant name and swapping the extension when image
+   * was encoded to a different format.
+   *
+   * @param  {String} name
+   * @param  {String} variant - null for the original
+   * @param  {String} extension - null to keep the extension
+   *
+   * @return {String}
+   *
+   * @private
+   */
+  _transformedName (name: string, variant: string, extension: string): string {
+    const currentExtension = path.extname(name)
+    const baseName = path.basename(name, currentExtension)
+    return `${baseName}${variant ? `-${variant}` : ''}${extension ? `.${extension}` : currentExtension}`
+  }
+
+  /**
+   * transforms the image and writes the original and it's
+   * variants using the writer. Writer receives the file
+   * name and contents and returns the written path.
+   *
+   * @param  {String} name
+   * @param  {Function} writer
+   *
+   * @throws {RuntimeException} If file is not a supported image
+   *
+   * @private
+   */
+  * _moveTransformed (name: string, writer: Function): any {
+    const Image = Ioc.use('Adonis/Src/Image')
+    const contents = yield this._readContents()
+    const detected = detect(contents)
+    if (!detected || !Image.supports(detected.mime)) {
+      throw RuntimeException.unsupportedImageType(detected ? detected.mime : 'unknown')
+    }
+
+    const output = yield Image.process(contents, this.transformOptions)
+    const extensionFor = (image) => image.mime === detected.mime ? null : image.extension
+    const fileName = output.original ? this._transformedName(name, null, extensionFor(output.original)) : name
+    const filePath = yield writer(fileName, output.original ? output.original.contents : contents)
+
+    const variants = {}
+    const variantNames = Object.keys(output.variants)
+    for (let i = 0; i < variantNames.length; i++) {
+      const variant = output.variants[variantNames[i]]
+      const variantName = this._transformedName(name, variantNames[i], extensionFor(variant))
+      variants[variantNames[i]] = {
+        name: variantName,
+        path: yield writer(variantName, variant.contents),
+        width: variant.width,
+        height: variant.height,
+        mime: variant.mime,
+        size: variant.contents.length
+      }
+    }
+    this._variants = variants
+    this._setUploadedFile(fileName, filePath)
+  }
+
+  /**
+   * transforms the image and writes the original and
+   * it's variants inside a given directory
+   *
+   * @param  {String} name
+   * @param  {String} toPath
+   *
+   * @private
+   */
+  * _moveTransformedToDirectory (name: string, toPath: string): any {
+    try {
+      yield this._moveTransformed(name, function * (fileName, contents) {
+        const filePath = path.join(toPath, fileName)
+        yield fs.outputFile(filePath, contents)
+        return filePath
+      })
+      if (this.tmpPath()) {
+        yield fs.remove(this.tmpPath())
+      }
+    } catch (error) {
+      this._setError(this.errors() || error.message)
+    }
+  }
+
   /**
    * Deletes a file
    *
@@ -326,12 +666,18 @@ export class File {
   get fileName(): string { return this._fileName }
   set fileName(value: string) { this._fileName = value }
 
-  get maxSize(): string { return this._maxSize }
-  set maxSize(value: string) { this._maxSize = value }
+  get maxSize(): number { return this._maxSize }
+  set maxSize(value: number) { this._maxSize = value }
 
   get allowedExtensions(): string[] { return this._allowedExtensions }
   set allowedExtensions(value: string[]) { this._allowedExtensions = value }
 
+  get allowedTypes(): string[] { return this._allowedTypes }
+  set allowedTypes(value: string[]) { this._allowedTypes = value }
+
+  get allowedMimes(): string[] { return this._allowedMimes }
+  set allowedMimes(value: string[]) { this._allowedMimes = value }
+
   get filePath(): string { return this._filePath }
   set filePath(value: string) { this._filePath = value }
 
@@ -341,8 +687,8 @@ export class File {
   get type(): string { return this._type }
   set type(value: string) { this._type = value }
 
-  get size(): string { return this._size }
-  set size(value: string) { this._size = value }
+  get size(): number { return this._size }
+  set size(value: number) { this._size = value }
 
   get path(): string { return this._path }
   set path(value: string) { this._path = value }
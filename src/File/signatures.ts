@@ -0,0 +1,172 @@
+/**
+ * adonis-framework
+ *
+ * (c) Harminder Virk <virk@adonisjs.com>
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+*/
+
+import * as _ from 'lodash'
+
+export interface DetectedType {
+  mime: string
+  extensions: Array<string>
+}
+
+interface Signature extends DetectedType {
+  parts: Array<{ offset: number, bytes: Array<number>|string }>
+  aliases?: Array<string>
+}
+
+/**
+ * number of leading bytes needed to detect the
+ * file type
+ *
+ * @type {Number}
+ */
+export const signatureLength = 262
+
+/**
+ * known file signatures, also called magic bytes
+ *
+ * @type {Array}
+ */
+const signatures: Array<Signature> = [
+  { mime: 'image/jpeg', extensions: ['jpg', 'jpeg'], parts: [{ offset: 0, bytes: [0xFF, 0xD8, 0xFF] }], aliases: ['image/jpg', 'image/pjpeg'] },
+  { mime: 'image/png', extensions: ['png'], parts: [{ offset: 0, bytes: [0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A] }], aliases: ['image/x-png'] },
+  { mime: 'image/gif', extensions: ['gif'], parts: [{ offset: 0, bytes: 'GIF8' }] },
+  { mime: 'image/webp', extensions: ['webp'], parts: [{ offset: 0, bytes: 'RIFF' }, { offset: 8, bytes: 'WEBP' }] },
+  { mime: 'image/bmp', extensions: ['bmp'], parts: [{ offset: 0, bytes: 'BM' }], aliases: ['image/x-bmp', 'image/x-ms-bmp'] },
+  { mime: 'image/tiff', extensions: ['tif', 'tiff'], parts: [{ offset: 0, bytes: [0x49, 0x49, 0x2A, 0x00] }] },
+  { mime: 'image/tiff', extensions: ['tif', 'tiff'], parts: [{ offset: 0, bytes: [0x4D, 0x4D, 0x00, 0x2A] }] },
+  { mime: 'image/x-icon', extensions: ['ico'], parts: [{ offset: 0, bytes: [0x00, 0x00, 0x01, 0x00] }], aliases: ['image/vnd.microsoft.icon'] },
+  { mime: 'video/mp4', extensions: ['mp4', 'm4v', 'mov'], parts: [{ offset: 4, bytes: 'ftyp' }], aliases: ['video/quicktime', 'video/x-m4v'] },
+  { mime: 'video/webm', extensions: ['webm', 'mkv'], parts: [{ offset: 0, bytes: [0x1A, 0x45, 0xDF, 0xA3] }], aliases: ['video/x-matroska'] },
+  { mime: 'audio/mpeg', extensions: ['mp3'], parts: [{ offset: 0, bytes: 'ID3' }], aliases: ['audio/mp3'] },
+  { mime: 'audio/mpeg', extensions: ['mp3'], parts: [{ offset: 0, bytes: [0xFF, 0xFB] }] },
+  { mime: 'audio/wav', extensions: ['wav'], parts: [{ offset: 0, bytes: 'RIFF' }, { offset: 8, bytes: 'WAVE' }], aliases: ['audio/x-wav', 'audio/wave', 'audio/vnd.wave'] },
+  { mime: 'application/pdf', extensions: ['pdf'], parts: [{ offset: 0, bytes: '%PDF' }], aliases: ['application/x-pdf'] },
+  {
+    mime: 'application/zip',
+    extensions: ['zip', 'docx', 'xlsx', 'pptx', 'jar'],
+    parts: [{ offset: 0, bytes: [0x50, 0x4B, 0x03, 0x04] }],
+    aliases: [
+      'application/x-zip-compressed',
+      'application/x-zip',
+      'application/java-archive',
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      'application/vnd.openxmlformats-officedocument.presentationml.presentation'
+    ]
+  },
+  { mime: 'application/gzip', extensions: ['gz', 'tgz'], parts: [{ offset: 0, bytes: [0x1F, 0x8B] }], aliases: ['application/x-gzip'] },
+  { mime: 'application/x-msdownload', extensions: ['exe', 'dll'], parts: [{ offset: 0, bytes: 'MZ' }], aliases: ['application/x-dosexec'] },
+  { mime: 'application/x-elf', extensions: [], parts: [{ offset: 0, bytes: [0x7F, 0x45, 0x4C, 0x46] }], aliases: ['application/x-executable'] }
+]
+
+/**
+ * mime types known by other names, mapped
+ * to the detected mime type
+ *
+ * @type {Object}
+ */
+const aliases = _.reduce(signatures, (result: Object, signature: Signature) => {
+  _.each(signature.aliases, (alias: string) => { result[alias] = signature.mime })
+  return result
+}, { 'image/svg': 'image/svg+xml' })
+
+/**
+ * tells whether buffer contains the bytes at
+ * a given offset
+ *
+ * @param  {Buffer} buffer
+ * @param  {Object} part
+ * @return {Boolean}
+ */
+const matches = function (buffer: Buffer, part: { offset: number, bytes: Array<number>|string }): boolean {
+  const bytes = typeof (part.bytes) === 'string' ? Array.from(Buffer.from(part.bytes)) : part.bytes
+  return _.every(bytes, (byte: number, index: number) => buffer[part.offset + index] === byte)
+}
+
+/**
+ * detects svg images, which are text files starting with
+ * an optional xml declaration or comments
+ *
+ * @param  {Buffer} buffer
+ * @return {Boolean}
+ */
+const isSvg = function (buffer: Buffer): boolean {
+  const text = buffer.toString('utf8').replace(/^\uFEFF/, '').trim()
+  return /^(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*)*(<!DOCTYPE svg[^>]*>\s*)?<svg[\s>]/i.test(text)
+}
+
+/**
+ * returns type of the file detected from it's
+ * leading bytes, null when type is unknown.
+ *
+ * @param  {Buffer} buffer
+ * @return {Object}
+ *
+ * @example
+ * detect(buffer) // => {mime: 'image/png', extensions: ['png']}
+ */
+export const detect = function (buffer: Buffer): DetectedType {
+  const signature = _.find(signatures, (signature: Signature) => _.every(signature.parts, (part) => matches(buffer, part)))
+  if (signature) {
+    return { mime: signature.mime, extensions: signature.extensions }
+  }
+  return isSvg(buffer) ? { mime: 'image/svg+xml', extensions: ['svg'] } : null
+}
+
+/**
+ * returns the mime type detected for files declared
+ * with a given mime type, so that aliases like
+ * image/jpg can be compared with image/jpeg.
+ *
+ * @param  {String} mime
+ * @return {String}
+ *
+ * @example
+ * normalizeMime('image/jpg') // => 'image/jpeg'
+ */
+export const normalizeMime = function (mime: string): string {
+  if (!mime) {
+    return mime
+  }
+  mime = mime.split(';')[0].trim().toLowerCase()
+  return aliases[mime] || mime
+}
+
+/**
+ * mime types of text files outside text/*
+ *
+ * @type {Array}
+ */
+const textMimes = ['application/json', 'application/xml', 'application/javascript']
+
+/**
+ * tells whether a mime type is used by text files,
+ * which have no signature.
+ *
+ * @param  {String} mime
+ * @return {Boolean}
+ *
+ * @example
+ * isTextMime('text/csv') // => true
+ * isTextMime('image/png') // => false
+ */
+export const isTextMime = function (mime: string): boolean {
+  return !!mime && (mime.startsWith('text/') || textMimes.indexOf(mime) > -1)
+}
+
+/**
+ * tells whether leading bytes belong to a text file, which
+ * has no signature. Text files never contain null bytes.
+ *
+ * @param  {Buffer} buffer
+ * @return {Boolean}
+ */
+export const isText = function (buffer: Buffer): boolean {
+  return buffer.indexOf(0) === -1
+}
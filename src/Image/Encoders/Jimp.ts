@@ -0,0 +1,115 @@
+/**
+ * adonis-framework
+ *
+ * (c) Harminder Virk <virk@adonisjs.com>
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+*/
+
+import * as _ from 'lodash'
+import * as jimp from 'jimp'
+import { ImageOptions } from '../index'
+
+/**
+ * jimp typings declare a default export, whereas the
+ * commonjs build exports Jimp itself
+ *
+ * @type {Object}
+ */
+const Jimp: any = jimp
+
+/**
+ * formats jimp can write to
+ *
+ * @type {Object}
+ */
+const formats = {
+  jpeg: { mime: 'image/jpeg', extension: 'jpg' },
+  jpg: { mime: 'image/jpeg', extension: 'jpg' },
+  png: { mime: 'image/png', extension: 'png' },
+  bmp: { mime: 'image/bmp', extension: 'bmp' },
+  tiff: { mime: 'image/tiff', extension: 'tiff' }
+}
+
+/**
+ * Encodes images using jimp, which is written in pure
+ * javascript and does not need native bindings. Images
+ * are rotated as per their EXIF orientation and
+ * EXIF data is never written back.
+ * @class
+ * @alias ImageJimpEncoder
+ */
+export class JimpEncoder {
+
+  /**
+   * tells whether images of a given mime type can
+   * be read by the encoder
+   *
+   * @param  {String} mime
+   *
+   * @return {Boolean}
+   */
+  supports (mime: string): boolean {
+    return ['image/jpeg', 'image/png', 'image/bmp', 'image/tiff', 'image/gif'].indexOf(mime) > -1
+  }
+
+  /**
+   * resizes image as per the fit option. Images are never
+   * enlarged when fitting them inside the box.
+   *
+   * @param  {Object} image
+   * @param  {Object} options
+   *
+   * @private
+   */
+  _resize (image: any, options: ImageOptions): void {
+    const width = options.width || Jimp.AUTO
+    const height = options.height || Jimp.AUTO
+    if (!options.width || !options.height) {
+      image.resize(width, height)
+      return
+    }
+    switch (options.fit) {
+      case 'cover':
+        image.cover(width, height)
+        break
+      case 'contain':
+        image.contain(width, height)
+        break
+      case 'fill':
+        image.resize(width, height)
+        break
+      default:
+        if (image.bitmap.width > width || image.bitmap.height > height) {
+          image.scaleToFit(width, height)
+        }
+    }
+  }
+
+  /**
+   * encodes image contents as per the given options
+   *
+   * @param  {Buffer} contents
+   * @param  {Object} options
+   *
+   * @return {Object} - contents, width, height, mime and extension
+   */
+  * encode (contents: Buffer, options: ImageOptions): any {
+    const image = yield Jimp.read(contents)
+    if (options.width || options.height) {
+      this._resize(image, options)
+    }
+    if (options.quality) {
+      image.quality(options.quality)
+    }
+    const format = formats[options.format] || _.find(formats, { mime: image.getMIME() }) || formats.png
+    return {
+      contents: yield image.getBufferAsync(format.mime),
+      width: image.bitmap.width,
+      height: image.bitmap.height,
+      mime: format.mime,
+      extension: format.extension
+    }
+  }
+}
@@ -0,0 +1,14 @@
+/**
+ * adonis-framework
+ *
+ * (c) Harminder Virk <virk@adonisjs.com>
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+*/
+
+import { JimpEncoder } from './Jimp'
+
+export const Encoders = {
+  jimp: JimpEncoder
+}
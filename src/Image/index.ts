@@ -0,0 +1,151 @@
+/**
+ * adonis-framework
+ *
+ * (c) Harminder Virk <virk@adonisjs.com>
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+*/
+
+import * as _ from 'lodash'
+import { Ioc } from 'adonis-fold'
+import { Config } from '../Config'
+import { Encoders } from './Encoders'
+import { RuntimeException } from '../Exceptions'
+
+export interface ImageOptions {
+  width?: number
+  height?: number
+  fit?: string
+  format?: string
+  quality?: number
+}
+
+export interface TransformOptions extends ImageOptions {
+  stripExif?: boolean
+  variants?: { [name: string]: ImageOptions }
+}
+
+export interface EncodedImage {
+  contents: Buffer
+  width: number
+  height: number
+  mime: string
+  extension: string
+}
+
+/**
+ * Transforms uploaded images using presets defined inside
+ * config/image.js file. Images are encoded using the
+ * encoder defined inside the config.
+ * @class
+ *
+ * @example
+ * image: {
+ *   encoder: 'jimp',
+ *   presets: {
+ *     avatar: {
+ *       width: 1024,
+ *       stripExif: true,
+ *       variants: {
+ *         thumb: { width: 120, height: 120, fit: 'cover', format: 'jpeg', quality: 80 }
+ *       }
+ *     }
+ *   }
+ * }
+ */
+export class Image {
+  static encoders: Object
+  private encoder: any
+  private presets: Object
+
+  /**
+   * Extend image by adding a new named encoder. This
+   * method is used by the IoC container, so feel
+   * free to use Ioc.extend syntax.
+   *
+   * @param  {String} key - name of the encoder
+   * @param  {Object} value - Encoder implementation
+   *
+   * @example
+   * Ioc.extend('Adonis/Src/Image', 'sharp', (app) => {
+   *   return new SharpEncoder()
+   * })
+   */
+  static extend (key: string, value: Object): void {
+    this.encoders = this.encoders || {}
+    this.encoders[key] = value
+  }
+
+  constructor (Config: Config) {
+    const encoder = Config.get('image.encoder', 'jimp')
+    const extendedEncoders = Image.encoders || {}
+    this.encoder = Encoders[encoder] ? Ioc.make(Encoders[encoder]) : extendedEncoders[encoder]
+    if (!this.encoder) {
+      throw RuntimeException.invalidImageEncoder(encoder)
+    }
+    this.presets = Config.get('image.presets', {})
+  }
+
+  /**
+   * returns options for a given preset
+   *
+   * @param  {String} name
+   *
+   * @return {Object}
+   *
+   * @throws {RuntimeException} If preset is not defined
+   *
+   * @public
+   */
+  preset (name: string): TransformOptions {
+    const preset = this.presets[name]
+    if (!preset) {
+      throw RuntimeException.invalidImagePreset(name)
+    }
+    return preset
+  }
+
+  /**
+   * tells whether images of a given mime type can
+   * be transformed
+   *
+   * @param  {String} mime
+   *
+   * @return {Boolean}
+   *
+   * @public
+   */
+  supports (mime: string): boolean {
+    return this.encoder.supports(mime)
+  }
+
+  /**
+   * transforms image contents to the original and it's variants.
+   * Original is re-encoded only when it has to be resized or
+   * EXIF data has to be stripped, otherwise it is null.
+   *
+   * @param  {Buffer} contents
+   * @param  {Object} options
+   *
+   * @return {Object} - original and variants
+   *
+   * @example
+   * const output = yield Image.process(contents, Image.preset('avatar'))
+   * output.variants.thumb.contents
+   *
+   * @public
+   */
+  * process (contents: Buffer, options: TransformOptions): any {
+    const originalOptions = _.pick(options, ['width', 'height', 'fit', 'format', 'quality'])
+    const reEncode = options.stripExif !== false || _.size(originalOptions) > 0
+    const original: EncodedImage = reEncode ? yield this.encoder.encode(contents, originalOptions) : null
+
+    const variants = {}
+    const variantNames = _.keys(options.variants)
+    for (let i = 0; i < variantNames.length; i++) {
+      variants[variantNames[i]] = yield this.encoder.encode(contents, options.variants[variantNames[i]])
+    }
+    return { original, variants }
+  }
+}
@@ -0,0 +1,152 @@
+/**
+ * adonis-framework
+ *
+ * (c) Harminder Virk <virk@adonisjs.com>
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+*/
+
+import * as _ from 'lodash'
+import { ResponseCache } from '../ResponseCache'
+
+/**
+ * Named middleware to cache successful GET responses
+ * for given seconds and answer conditional requests
+ * using ETag and Last-Modified headers. Responses
+ * setting cookies or marked as private are
+ * never cached.
+ * @class
+ *
+ * @example
+ * Route.get('/posts', '...').middleware('cache:300')
+ * Route.get('/posts', '...').middleware('cache:300,Accept-Language')
+ */
+export class Cache {
+  private cache: ResponseCache
+
+  constructor (ResponseCache: ResponseCache) {
+    this.cache = ResponseCache
+  }
+
+  /**
+   * sets validators of a cached response and tells
+   * whether request is fresh after setting them.
+   *
+   * @param  {Object} request
+   * @param  {Object} response
+   * @param  {Object} cachedResponse
+   *
+   * @return {Boolean}
+   *
+   * @private
+   */
+  _setValidators (request: any, response: any, cachedResponse: any): boolean {
+    response.header('ETag', cachedResponse.etag)
+    response.header('Last-Modified', cachedResponse.lastModified)
+    return request.fresh()
+  }
+
+  /**
+   * sends a cached response
+   *
+   * @param  {Object} request
+   * @param  {Object} response
+   * @param  {Object} cachedResponse
+   *
+   * @private
+   */
+  _replay (request: any, response: any, cachedResponse: any): void {
+    if (this._setValidators(request, response, cachedResponse)) {
+      response.status(304).end()
+      return
+    }
+    if (cachedResponse.contentType) {
+      response.header('Content-Type', cachedResponse.contentType)
+    }
+    const body = cachedResponse.encoding ? Buffer.from(cachedResponse.body, cachedResponse.encoding) : cachedResponse.body
+    response.status(200).send(body)
+  }
+
+  /**
+   * tells whether a response is specific to the user
+   * and must not be served to other requests.
+   *
+   * @param  {Object} res - node response
+   *
+   * @return {Boolean}
+   *
+   * @private
+   */
+  _isPrivate (res: any): boolean {
+    return !!res.getHeader('Set-Cookie') || /(^|,)\s*(private|no-store)\b/i.test(res.getHeader('Cache-Control') || '')
+  }
+
+  /**
+   * captures body of a successful response when it is
+   * being written and answers the request with 304
+   * when it is fresh.
+   *
+   * @param  {Object} request
+   * @param  {Object} response
+   *
+   * @return {Object} - captured response, body is set once response ends
+   *
+   * @private
+   */
+  _capture (request: any, response: any): any {
+    const res = response.response
+    const end = res.end
+    const captured: any = {}
+
+    res.end = (body?: any, ...args: Array<any>) => {
+      res.end = end
+      if (res.statusCode !== 200 || body === undefined || body === null || typeof (body) === 'function' || this._isPrivate(res)) {
+        return end.apply(res, [body].concat(args))
+      }
+      const isBuffer = Buffer.isBuffer(body)
+      captured.body = isBuffer ? body.toString('base64') : String(body)
+      captured.encoding = isBuffer ? 'base64' : null
+      captured.contentType = res.getHeader('Content-Type') || null
+      captured.etag = res.getHeader('ETag') || this.cache.etag(body)
+      captured.lastModified = new Date().toUTCString()
+
+      if (this._setValidators(request, response, captured)) {
+        res.statusCode = 304
+        res.removeHeader('Content-Type')
+        res.removeHeader('Content-Length')
+        return end.call(res)
+      }
+      return end.apply(res, [body].concat(args))
+    }
+    return captured
+  }
+
+  /**
+   * @param  {Number} [ttl=60] - seconds to cache the response for
+   * @param  {...String} [varyBy] - headers to cache variants for
+   *
+   * @public
+   */
+  * handle (request: any, response: any, next: any, ttl?: string, ...varyBy: Array<string>): any {
+    if (request.method().toUpperCase() !== 'GET') {
+      yield next
+      return
+    }
+
+    const key = this.cache.keyFor(request, varyBy)
+    _.each(varyBy, (header) => response.vary(header))
+
+    const cachedResponse = yield this.cache.get(key)
+    if (cachedResponse) {
+      this._replay(request, response, cachedResponse)
+      return
+    }
+
+    const captured = this._capture(request, response)
+    yield next
+    if (captured.body !== undefined) {
+      yield this.cache.put(key, captured, Number(ttl || 60))
+    }
+  }
+}
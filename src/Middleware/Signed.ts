@@ -0,0 +1,29 @@
+/**
+ * adonis-framework
+ *
+ * (c) Harminder Virk <virk@adonisjs.com>
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+*/
+
+import { HttpException } from '../Exceptions'
+
+/**
+ * Named middleware to only allow requests to urls
+ * created via Route.signedUrl
+ * @class
+ */
+export class Signed {
+  /**
+   * @throws {HttpException} If url signature is invalid or has expired
+   *
+   * @public
+   */
+  * handle (request: any, response: any, next: any): any {
+    if (!request.hasValidSignature()) {
+      throw new HttpException('Invalid or expired url signature', 403)
+    }
+    yield next
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * adonis-framework
+ *
+ * (c) Harminder Virk <virk@adonisjs.com>
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+*/
+
+import { Throttle as ThrottleStore } from '../Throttle'
+import { HttpException } from '../Exceptions'
+
+/**
+ * Named middleware to limit the number of requests
+ * made within given minutes.
+ * @class
+ *
+ * @example
+ * Route.get('/users', '...').middleware('throttle:60,1')
+ */
+export class Throttle {
+  private throttle: ThrottleStore
+
+  constructor (Throttle: ThrottleStore) {
+    this.throttle = Throttle
+  }
+
+  /**
+   * @param  {Number} [maxAttempts=60]
+   * @param  {Number} [decayMinutes=1]
+   *
+   * @throws {HttpException} If attempts have been exceeded
+   *
+   * @public
+   */
+  * handle (request: any, response: any, next: any, maxAttempts?: string, decayMinutes?: string): any {
+    const limit = Number(maxAttempts || 60)
+    const hit = yield this.throttle.hit(this.throttle.keyFor(request), Number(decayMinutes || 1) * 60)
+
+    response.header('X-RateLimit-Limit', limit)
+    response.header('X-RateLimit-Remaining', Math.max(limit - hit.attempts, 0))
+    if (hit.attempts > limit) {
+      response.header('Retry-After', hit.ttl)
+      response.header('X-RateLimit-Reset', Math.floor(Date.now() / 1000) + hit.ttl)
+      throw new HttpException('Too many requests', 429)
+    }
+    yield next
+  }
+}
@@ -11,6 +11,18 @@ import * as  _ from 'lodash'
 import { Ioc } from 'adonis-fold'
 import { RuntimeException, InvalidArgumentException, HttpException } from '../Exceptions'
 
+/**
+ * named middleware shipped with the framework, they
+ * can be used without registering them.
+ *
+ * @type {Object}
+ */
+const builtInMiddleware = {
+  signed: 'Adonis/Middleware/Signed',
+  throttle: 'Adonis/Middleware/Throttle',
+  cache: 'Adonis/Middleware/Cache'
+}
+
 /**
  * Http middleware layer to register and resolve middleware
  * for a given HTTP request.
@@ -150,7 +162,7 @@ export class Middleware {
   formatNamedMiddleware(keys: Array<string>): Object {
     return _.reduce(keys, (structured, key) => {
       const tokens = key.split(':')
-      const middlewareNamespace = this.namedMiddleware[tokens[0]]
+      const middlewareNamespace = this.namedMiddleware[tokens[0]] || builtInMiddleware[tokens[0]]
       if (!middlewareNamespace) {
         throw RuntimeException.missingNamedMiddleware(tokens[0])
       }
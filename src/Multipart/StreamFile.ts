@@ -0,0 +1,235 @@
+/**
+ * adonis-framework
+ *
+ * (c) Harminder Virk <virk@adonisjs.com>
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+*/
+
+import * as path from 'path'
+import { fs } from 'co-fs-extra'
+import { createWriteStream } from 'fs'
+import { PassThrough, Writable } from 'stream'
+import { File } from '../File'
+import { signatureLength } from '../File/signatures'
+
+/**
+ * A file part of a multipart request which is never written
+ * to the temporary directory. The part is exposed as a
+ * readable stream and is validated using the same
+ * rules as File, while the bytes are flowing.
+ *
+ * Streams going over the maxSize are aborted as soon
+ * as the limit is crossed.
+ * @class
+ *
+ * @alias Request.multipart.file
+ */
+export class StreamFile extends File {
+  public stream: PassThrough
+  private aborted: boolean
+  private leadingBytes: Buffer
+  private pendingChunks: Array<Buffer>
+
+  constructor (part: any, options: any) {
+    super({ name: part.filename, type: part.mime, size: 0 }, options || {})
+    this.name = part.filename
+    this.type = part.mime
+    this.size = 0
+    this.aborted = false
+    this.leadingBytes = null
+    /**
+     * chunks held back until enough bytes have been
+     * received to detect the file type.
+     */
+    this.pendingChunks = []
+    this.stream = new PassThrough()
+    /**
+     * errors are read using file.errors() when the
+     * stream is not being consumed.
+     */
+    this.stream.on('error', () => {})
+  }
+
+  /**
+   * file type is detected using the leading bytes, it is
+   * not known until enough of the part has flown.
+   *
+   * @return {Promise}
+   *
+   * @private
+   */
+  _leadingBytes (): Promise<Buffer> {
+    return Promise.resolve(this.leadingBytes || Buffer.alloc(0))
+  }
+
+  /**
+   * contents are validated by _write as soon as the
+   * leading bytes are received.
+   *
+   * @return {String}
+   *
+   * @private
+   */
+  * _contentError (): any {
+    return null
+  }
+
+  /**
+   * writes a chunk of the part to the stream, aborting
+   * the stream when file goes over the allowed size
+   * or it's detected type is not allowed. Chunks are
+   * held back until the leading bytes are received.
+   *
+   * @param  {Buffer} chunk
+   * @return {Boolean} - false when consumer is not ready
+   *                     for more data
+   *
+   * @private
+   */
+  _write (chunk: Buffer): boolean {
+    if (this.aborted) {
+      return true
+    }
+    this.size += chunk.length
+    if (!this._underAllowedSize()) {
+      this._setFileSizeExceedsError()
+      this._abort(this.errors())
+      return true
+    }
+    if (this.pendingChunks) {
+      this.pendingChunks.push(chunk)
+      return this.size < signatureLength ? true : this._writePending()
+    }
+    return this.stream.write(chunk)
+  }
+
+  /**
+   * validates contents using the held back chunks and
+   * writes them to the stream.
+   *
+   * @return {Boolean} - false when consumer is not ready
+   *                     for more data
+   *
+   * @private
+   */
+  _writePending (): boolean {
+    const chunks = this.pendingChunks
+    this.pendingChunks = null
+    this.leadingBytes = Buffer.concat(chunks).slice(0, signatureLength)
+    const contentError = this._hasContentRules() ? this._contentErrorFor(this.leadingBytes) : null
+    if (contentError) {
+      this._abort(contentError)
+      return true
+    }
+    return chunks.reduce((ready, chunk) => this.stream.write(chunk) && ready, true)
+  }
+
+  /**
+   * ends the stream once part has been read, files
+   * shorter than the leading bytes are validated
+   * at this point.
+   *
+   * @private
+   */
+  _end (): void {
+    if (!this.aborted && this.pendingChunks) {
+      this._writePending()
+    }
+    if (!this.aborted) {
+      this.stream.end()
+    }
+  }
+
+  /**
+   * aborts the stream by setting the error on the
+   * file and emitting it on the stream.
+   *
+   * @param  {String} error
+   *
+   * @private
+   */
+  _abort (error: string): void {
+    this.aborted = true
+    this._setError(error)
+    this.stream.emit('error', new Error(error))
+  }
+
+  /**
+   * pipes the file to a writable stream. Returned promise
+   * is resolved once the destination has been written
+   * and rejected when the stream is aborted.
+   *
+   * @param  {Object} destination - writable stream
+   * @return {Promise}
+   *
+   * @example
+   * yield file.pipe(s3.createWriteStream(key))
+   *
+   * @public
+   */
+  pipe (destination: Writable): Promise<any> {
+    return new Promise((resolve, reject) => {
+      this.stream.on('error', (error) => {
+        this.stream.unpipe(destination)
+        destination.end()
+        reject(error)
+      })
+      destination.on('error', reject)
+      destination.on('finish', resolve)
+      this.stream.pipe(destination)
+    })
+  }
+
+  /**
+   * streams the file to a given location. Aborted files
+   * are removed from the location and the error is
+   * set on the file.
+   *
+   * @param  {String} toPath
+   * @param  {String} [name]
+   *
+   * @example
+   * yield file.move(Helpers.storagePath('videos'))
+   *
+   * @public
+   */
+  * move (toPath: string, name?: string): any {
+    name = name || path.basename(this.clientName())
+    if (!(yield this.validateContents())) {
+      return
+    }
+    if (this.transformOptions) {
+      return yield this._moveTransformedToDirectory(name, toPath)
+    }
+    const completePath = path.join(toPath, name)
+    try {
+      yield fs.ensureDir(toPath)
+      yield this.pipe(createWriteStream(completePath))
+      this._setUploadedFile(name, completePath)
+    } catch (error) {
+      yield fs.remove(completePath)
+      this._setError(this.errors() || error.message)
+    }
+  }
+
+  /**
+   * @see File~_contents
+   */
+  _contents (): PassThrough {
+    return this.stream
+  }
+
+  /**
+   * files are streamed and never written to the
+   * temporary directory.
+   *
+   * @return {Null}
+   *
+   * @public
+   */
+  tmpPath (): string {
+    return null
+  }
+}
@@ -0,0 +1,142 @@
+/**
+ * adonis-framework
+ *
+ * (c) Harminder Virk <virk@adonisjs.com>
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+*/
+
+import * as _ from 'lodash'
+import * as co from 'co'
+import * as qs from 'qs'
+import * as formidable from 'formidable'
+import { StreamFile } from './StreamFile'
+import { HttpException } from '../Exceptions'
+
+/**
+ * Streams file parts of a multipart request to the
+ * handlers registered for them. It is used
+ * instead of the body parser when files
+ * are to be streamed for a route.
+ *
+ * @class
+ *
+ * @alias Request.multipart
+ *
+ * @example
+ * Route.post('/videos', 'VideosController.store').bodyParser({files: {stream: true}})
+ *
+ * request.multipart.file('video', {maxSize: '4gb', allowedExtensions: ['mp4']}, function * (file) {
+ *   yield file.move(Helpers.storagePath('videos'))
+ * })
+ * yield request.multipart.process()
+ */
+export class Multipart {
+  private request: any
+  private options: Object
+  private handlers: Object
+
+  constructor (request: any, options?: any) {
+    this.request = request
+    this.options = _.pick(options || {}, ['maxSize', 'allowedExtensions', 'allowedTypes', 'allowedMimes'])
+    this.handlers = {}
+  }
+
+  /**
+   * register a handler for file parts of a given field.
+   * Use * to handle files of all the fields.
+   *
+   * @param  {String} name - field name
+   * @param  {Object} [options] - maxSize, allowedExtensions, allowedTypes
+   *                              and allowedMimes
+   * @param  {Function} handler - receives instance of StreamFile
+   * @return {Object} - reference to this for chaining
+   *
+   * @public
+   */
+  file (name: string, options: Object|Function, handler?: Function): Object {
+    if (typeof (options) === 'function') {
+      handler = options
+      options = {}
+    }
+    this.handlers[name] = { options: _.assign({}, this.options, options), handler }
+    return this
+  }
+
+  /**
+   * passes a file part to the registered handler. Parts
+   * without a handler are drained, so that rest
+   * of the request can be read. File is aborted
+   * when the handler fails.
+   *
+   * @param  {Object} form - formidable form
+   * @param  {Object} part
+   * @return {Promise}
+   *
+   * @private
+   */
+  _handlePart (form: any, part: any): Promise<any> {
+    const registered = this.handlers[part.name] || this.handlers['*']
+    if (!registered) {
+      part.on('data', () => {})
+      return Promise.resolve()
+    }
+
+    const file = new StreamFile(part, registered.options)
+    file.stream.on('drain', () => form.resume())
+    part.on('data', (chunk) => {
+      if (!file._write(chunk)) {
+        form.pause()
+      }
+    })
+    part.on('end', () => file._end())
+
+    return co(function * () {
+      const result = registered.handler(file)
+      if (result) {
+        yield result
+      }
+    }).then(() => {
+      file.stream.resume()
+    }, (error) => {
+      file._abort(error.message)
+      form.resume()
+      throw error
+    })
+  }
+
+  /**
+   * reads the request, calling handlers for file parts
+   * and setting fields as the request body.
+   *
+   * @return {Promise}
+   *
+   * @throws {HttpException} If request is not a valid multipart request
+   *
+   * @public
+   */
+  process (): Promise<any> {
+    const form = new formidable.IncomingForm()
+    const fields = []
+    const handling = []
+
+    form.onPart = (part) => {
+      if (!part.filename) {
+        form.handlePart(part)
+        return
+      }
+      handling.push(this._handlePart(form, part))
+    }
+    form.on('field', (name, value) => fields.push(`${encodeURIComponent(name)}=${encodeURIComponent(value)}`))
+
+    return new Promise((resolve, reject) => {
+      form.on('error', (error) => reject(new HttpException(error.message, 400)))
+      form.on('end', () => {
+        this.request._body = qs.parse(fields.join('&'))
+        Promise.all(handling).then(resolve, reject)
+      })
+      form.parse(this.request.request)
+    })
+  }
+}
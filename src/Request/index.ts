@@ -11,14 +11,24 @@
 
 import { nodeReq } from 'node-req'
 import { nodeCookie } from 'node-cookie'
+import { Ioc } from 'adonis-fold'
 import { File } from '../File'
 import { Config } from '../Config'
+import { Validator } from '../Validator'
+import { ValidationException } from '../Exceptions'
 import * as pathToRegexp from 'path-to-regexp'
 import * as  _  from 'lodash'
 import { Util } from '../../lib/util'
 
 let configInstance = null
 
+/**
+ * input fields never flashed back to the session
+ *
+ * @type {Array}
+ */
+const unflashedFields = ['password', 'password_confirmation']
+
 /**
  * Glued http request object to read values for
  * a given request. Instance of this class
@@ -31,17 +41,22 @@ class Request {
   private response: string
   private _body: Object
   private _files: Array<Object>|Array<string>
+  private _raw: string
   private secret: string
   private cookiesObject: Object
   private parsedCookies: boolean
   private util: Util
   private _params: Object
+  private _route: Object
+  public session: any
+  public multipart: any
 
   constructor (request: string, response: string) {
     this.request = request
     this.response = response
     this._body = {}
     this._files = []
+    this._raw = null
 
     /**
      * secret to parse and decrypt cookies
@@ -181,8 +196,8 @@ class Request {
   }
 
   /**
-   * returns post body from request, BodyParser
-   * middleware needs to be enabled for this to work
+   * returns post body from request, parsed by
+   * the BodyParser
    *
    * @return {Object}
    *
@@ -192,6 +207,18 @@ class Request {
     return this._body || {}
   }
 
+  /**
+   * returns request body as a string for json,
+   * urlencoded and text requests
+   *
+   * @return {String}
+   *
+   * @public
+   */
+  raw (): string {
+    return this._raw
+  }
+
   /**
    * returns header value for a given key
    *
@@ -205,7 +232,7 @@ class Request {
    *
    * @public
    */
-  header (key: string, defaultValue: any) {
+  header (key: string, defaultValue?: any) {
     defaultValue = this.util.existy(defaultValue) ? defaultValue : null
     const headerValue = nodeReq.header(this.request, key)
     return this.util.existy(headerValue) ? headerValue : defaultValue
@@ -374,8 +401,8 @@ class Request {
    *
    * @public
    */
-  is (): boolean {
-    const args = _.isArray(arguments[0]) ? arguments[0] : _.toArray(arguments)
+  is (...types: Array<any>): boolean {
+    const args = _.isArray(types[0]) ? types[0] : types
     return nodeReq.is(this.request, args)
   }
 
@@ -390,8 +417,8 @@ class Request {
    *
    * @public
    */
-  accepts (): string {
-    const args = _.isArray(arguments[0]) ? arguments[0] : _.toArray(arguments)
+  accepts (...types: Array<any>): string {
+    const args = _.isArray(types[0]) ? types[0] : types
     return nodeReq.accepts(this.request, args)
   }
 
@@ -597,6 +624,110 @@ class Request {
     return pattern.test(url)
   }
 
+  /**
+   * tells whether request url has been signed using
+   * Route.signedUrl and has not been expired
+   *
+   * @return {Boolean}
+   *
+   * @example
+   * request.hasValidSignature()
+   *
+   * @public
+   */
+  hasValidSignature (): boolean {
+    return Ioc.use('Adonis/Src/UrlSigner').verify(this.originalUrl())
+  }
+
+  /**
+   * validates request input against rules. For html requests
+   * old input, except passwords, is flashed the same way
+   * request.withOut('password').flash() does, whereas errors
+   * are flashed under their own key and read via
+   * request.errors(). Ajax and json requests are
+   * answered with 422.
+   *
+   * @param  {Object} rules
+   * @param  {Object} [messages] - custom error messages
+   * @return {ErrorBag}
+   *
+   * @throws {ValidationException} If any of the rules fails
+   *
+   * @example
+   * yield request.validate({
+   *   email: 'required|email',
+   *   password: 'required|min:6|confirmed'
+   * })
+   *
+   * @public
+   */
+  * validate (rules: Object, messages?: Object): any {
+    const errors = new Validator().validate(this.all(), rules, messages)
+    if (!errors.fails()) {
+      return errors
+    }
+    if (this.ajax() || this.is('json') || this.accepts('html', 'json') === 'json') {
+      throw new ValidationException(errors)
+    }
+    yield this.session.put('flash_messages', _.omit(this.all(), unflashedFields))
+    yield this.session.put('flash_errors', errors.toJSON())
+    throw new ValidationException(errors, 'back')
+  }
+
+  /**
+   * returns validation errors flashed by the previous
+   * request. Errors are removed from the session
+   * once read.
+   *
+   * @return {Array}
+   *
+   * @example
+   * yield request.errors()
+   * // => [{field: 'email', validation: 'email', message: 'email validation failed on email'}]
+   *
+   * @public
+   */
+  * errors (): any {
+    return yield this.session.pull('flash_errors', [])
+  }
+
+  /**
+   * returns api version requested via the url prefix,
+   * the version header or a vendor media type inside
+   * Accept header. Falls back to the default version
+   * defined inside app.http.versioning.
+   *
+   * @uses app.http.versioning
+   *
+   * @return {Number}
+   *
+   * @example
+   * GET /v2/users
+   * X-Api-Version: 2
+   * Accept: application/vnd.app.v2+json
+   * request.version() // => 2
+   *
+   * @public
+   */
+  version (): number {
+    const options = _.assign({ header: 'X-Api-Version', vendor: null, default: null }, configInstance.get('app.http.versioning'))
+    const urlVersion = this.url().match(/^\/v(\d+)(\/|$)/)
+    if (urlVersion) {
+      return Number(urlVersion[1])
+    }
+
+    const headerVersion = this.header(options.header)
+    if (headerVersion && /^v?\d+$/i.test(headerVersion)) {
+      return Number(headerVersion.replace(/^v/i, ''))
+    }
+
+    const mediaType = (this.header('Accept') || '').match(/application\/vnd\.([\w.-]+?)\.v(\d+)(\+\w+)?/i)
+    if (mediaType && (!options.vendor || mediaType[1] === options.vendor)) {
+      return Number(mediaType[2])
+    }
+    return options.default
+  }
+
   /**
    * returns request format enabled by using
    * .formats on routes
@@ -264,10 +264,11 @@ class Response {
    *
    */
   redirect (toUrl: string, status: number): void {
+    const request: any = this.request
     if (toUrl === 'back') {
-      toUrl = /* this.request.header('Referrer') || */ '/'
+      toUrl = request.header('Referrer') || '/'
     }
-    // nodeRes.redirect(this.request.request, this.response, toUrl, status)
+    nodeRes.redirect(request.request, this.response, toUrl, status)
   }
 
   /**
@@ -0,0 +1,93 @@
+/**
+ * adonis-framework
+ *
+ * (c) Harminder Virk <virk@adonisjs.com>
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+*/
+
+import * as crypto from 'crypto'
+import * as path from 'path'
+import { fs } from 'co-fs-extra'
+
+/**
+ * File store to keep cached responses as json files
+ * inside the storage directory.
+ * @class
+ * @alias ResponseCacheFileStore
+ */
+export class File {
+  private cacheDir: string
+
+  /**
+   * Injects ['Adonis/Src/Helpers', 'Adonis/Src/Config']
+   */
+  static get inject (): Array<string> {
+    return ['Adonis/Src/Helpers', 'Adonis/Src/Config']
+  }
+
+  constructor (Helpers: any, Config: any) {
+    this.cacheDir = Helpers.storagePath(Config.get('cache.directory', 'framework/cache'))
+  }
+
+  /**
+   * returns path of the cache file for a given key
+   *
+   * @param  {String} key
+   *
+   * @return {String}
+   *
+   * @private
+   */
+  _pathFor (key: string): string {
+    return path.join(this.cacheDir, `${crypto.createHash('sha1').update(key).digest('hex')}.json`)
+  }
+
+  /**
+   * returns cached value for a given key, null when
+   * value does not exists or has been expired.
+   *
+   * @param  {String} key
+   *
+   * @return {Object}
+   */
+  * get (key: string): any {
+    try {
+      const entry = yield fs.readJson(this._pathFor(key))
+      if (entry.expiresAt > Date.now()) {
+        return entry.value
+      }
+      yield this.forget(key)
+      return null
+    } catch (e) {
+      return null
+    }
+  }
+
+  /**
+   * stores value for a given key
+   *
+   * @param  {String} key
+   * @param  {Object} value
+   * @param  {Number} ttl - seconds to keep the value for
+   *
+   * @return {Boolean}
+   */
+  * put (key: string, value: Object, ttl: number): any {
+    yield fs.outputJson(this._pathFor(key), { value, expiresAt: Date.now() + (ttl * 1000) })
+    return true
+  }
+
+  /**
+   * removes value for a given key
+   *
+   * @param  {String} key
+   *
+   * @return {Boolean}
+   */
+  * forget (key: string): any {
+    yield fs.remove(this._pathFor(key))
+    return true
+  }
+}
@@ -0,0 +1,102 @@
+/**
+ * adonis-framework
+ *
+ * (c) Harminder Virk <virk@adonisjs.com>
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+*/
+
+/**
+ * number of responses to keep, oldest response is
+ * removed when caching a new one after that
+ *
+ * @type {Number}
+ */
+const maxEntries = 1000
+
+/**
+ * Memory store to keep cached responses within the
+ * current process.
+ * @class
+ * @alias ResponseCacheMemoryStore
+ */
+export class Memory {
+  private entries: Object
+  private pruneAt: number
+
+  constructor () {
+    this.entries = {}
+    this.pruneAt = 0
+  }
+
+  /**
+   * removes expired responses, at most once a minute
+   * so that entries do not grow with every new key.
+   *
+   * @param  {Number} now
+   *
+   * @private
+   */
+  _prune (now: number): void {
+    if (now < this.pruneAt) {
+      return
+    }
+    this.pruneAt = now + 60000
+    Object.keys(this.entries).forEach((key) => {
+      if (this.entries[key].expiresAt <= now) {
+        delete this.entries[key]
+      }
+    })
+  }
+
+  /**
+   * returns cached value for a given key, null when
+   * value does not exists or has been expired.
+   *
+   * @param  {String} key
+   *
+   * @return {Object}
+   */
+  * get (key: string): any {
+    const entry = this.entries[key]
+    if (!entry || entry.expiresAt <= Date.now()) {
+      delete this.entries[key]
+      return null
+    }
+    return entry.value
+  }
+
+  /**
+   * stores value for a given key
+   *
+   * @param  {String} key
+   * @param  {Object} value
+   * @param  {Number} ttl - seconds to keep the value for
+   *
+   * @return {Boolean}
+   */
+  * put (key: string, value: Object, ttl: number): any {
+    const now = Date.now()
+    this._prune(now)
+    delete this.entries[key]
+    const keys = Object.keys(this.entries)
+    if (keys.length >= maxEntries) {
+      delete this.entries[keys[0]]
+    }
+    this.entries[key] = { value, expiresAt: now + (ttl * 1000) }
+    return true
+  }
+
+  /**
+   * removes value for a given key
+   *
+   * @param  {String} key
+   *
+   * @return {Boolean}
+   */
+  * forget (key: string): any {
+    delete this.entries[key]
+    return true
+  }
+}
@@ -0,0 +1,125 @@
+/**
+ * adonis-framework
+ *
+ * (c) Harminder Virk <virk@adonisjs.com>
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+*/
+
+import * as _ from 'lodash'
+import * as crypto from 'crypto'
+import { Ioc } from 'adonis-fold'
+import { Config } from '../Config'
+import { Stores } from './Stores'
+import { RuntimeException } from '../Exceptions'
+
+/**
+ * Stores responses using the store defined inside
+ * config/cache.js file, along with the validators
+ * used to answer conditional requests.
+ * @class
+ */
+export class ResponseCache {
+  static stores: Object
+  private store: any
+  private prefix: string
+
+  /**
+   * Extend response cache by adding a new named store.
+   * This method is used by the IoC container, so
+   * feel free to use Ioc.extend syntax.
+   *
+   * @param  {String} key - name of the store
+   * @param  {Object} value - Store implementation
+   *
+   * @example
+   * Ioc.extend('Adonis/Src/ResponseCache', 'redis', (app) => {
+   *   return new RedisStore()
+   * })
+   */
+  static extend (key: string, value: Object): void {
+    this.stores = this.stores || {}
+    this.stores[key] = value
+  }
+
+  constructor (Config: Config) {
+    const store = Config.get('cache.store', 'memory')
+    const extendedStores = ResponseCache.stores || {}
+    this.store = Stores[store] ? Ioc.make(Stores[store]) : extendedStores[store]
+    if (!this.store) {
+      throw RuntimeException.invalidCacheStore(store)
+    }
+    this.prefix = Config.get('cache.prefix', 'response:')
+  }
+
+  /**
+   * returns cache key for a given request. Hostname and
+   * values of the vary by headers are part of the key,
+   * so that each host and variant is cached separately.
+   *
+   * @param  {Object} request
+   * @param  {Array} [varyBy]
+   *
+   * @return {String}
+   *
+   * @example
+   * ResponseCache.keyFor(request, ['Accept-Language'])
+   *
+   * @public
+   */
+  keyFor (request: any, varyBy?: Array<string>): string {
+    const variants = _.map(varyBy, (header: string) => `${header.toLowerCase()}=${request.header(header) || ''}`)
+    return `${this.prefix}${request.hostname()}${request.originalUrl()}${variants.length ? `|${variants.join('|')}` : ''}`
+  }
+
+  /**
+   * returns strong ETag for a given response body
+   *
+   * @param  {String|Buffer} body
+   *
+   * @return {String}
+   *
+   * @public
+   */
+  etag (body: any): string {
+    return `"${crypto.createHash('sha1').update(body || '').digest('hex')}"`
+  }
+
+  /**
+   * returns cached response for a given key
+   *
+   * @param  {String} key
+   *
+   * @return {Object}
+   *
+   * @public
+   */
+  * get (key: string): any {
+    return yield this.store.get(key)
+  }
+
+  /**
+   * caches response for a given key
+   *
+   * @param  {String} key
+   * @param  {Object} cachedResponse
+   * @param  {Number} ttl - seconds to cache the response for
+   *
+   * @public
+   */
+  * put (key: string, cachedResponse: Object, ttl: number): any {
+    return yield this.store.put(key, cachedResponse, ttl)
+  }
+
+  /**
+   * removes cached response for a given key
+   *
+   * @param  {String} key
+   *
+   * @public
+   */
+  * forget (key: string): any {
+    return yield this.store.forget(key)
+  }
+}
@@ -10,18 +10,24 @@
 import { RouterHelper } from './helpers'
 import { CatLog } from 'cat-log'
 import { Util } from '../../lib/util'
-import { Resource } from './resource'
 
-class ResourceCollection extends Resource {
+/**
+ * Customize a collection route added to a resource using
+ * Resource.addCollection
+ * @class
+ * @alias Route.ResourceCollection
+ */
+export class ResourceCollection {
   public log: CatLog
   public helpers: RouterHelper
+  public util: Util
+  private route: any
+  private assertUniqueName: Function
 
-  constructor (route: any) {
-    super(route, '', '')
-
-    this.log = super.log
-    this.route = super.route
-    this.helpers = super.helpers
+  constructor (route: any, assertUniqueName?: Function) {
+    this.log = new CatLog('adonis:framework')
+    this.route = route
+    this.assertUniqueName = assertUniqueName || function () {}
   }
 
   /**
@@ -35,7 +41,7 @@ class ResourceCollection extends Resource {
    * @public
    */
   bindAction (action: string): Object {
-    super.handler = action
+    this.route.handler = action
     return this
   }
 
@@ -63,16 +69,20 @@ class ResourceCollection extends Resource {
   }
 
   /**
-   * assign name to the route
+   * assign name to the route, route is named after the
+   * resource by default. For example: tasks.completed
    *
    * @param  {String} name
    *
    * @return {Object}
    *
+   * @throws {RuntimeException} If name has been given to another route
+   *
    * @public
    */
-  as (name: string): any {
-    // super.route.name = name
+  as (name: string): Object {
+    this.assertUniqueName(name, this.route)
+    this.route.name = name
     return this
   }
 
@@ -86,4 +96,4 @@ class ResourceCollection extends Resource {
   toJSON (): Object {
     return this.route
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,91 @@
+/**
+ * adonis-framework
+ *
+ * (c) Harminder Virk <virk@adonisjs.com>
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+*/
+
+import { fs } from 'co-fs-extra'
+import { Route } from './index'
+import { Helpers } from '../Helpers'
+
+/**
+ * Writes registered routes to a cache file inside the
+ * storage directory and restores them on boot,
+ * instead of registering them again.
+ * @class
+ * @alias Route.Cache
+ */
+export class RouteCache {
+  private route: Route
+  private cachePath: string
+
+  constructor (Route: Route, Helpers: Helpers) {
+    this.route = Route
+    this.cachePath = Helpers.storagePath('framework/routes.json')
+  }
+
+  /**
+   * tells whether routes cache exists or not
+   *
+   * @return {Boolean}
+   *
+   * @example
+   * yield RouteCache.exists()
+   *
+   * @public
+   */
+  * exists (): any {
+    return yield fs.exists(this.cachePath)
+  }
+
+  /**
+   * writes registered routes to the cache file
+   *
+   * @throws {RuntimeException} If any route makes use of closures
+   *
+   * @example
+   * yield RouteCache.dump()
+   *
+   * @public
+   */
+  * dump (): any {
+    yield fs.outputJson(this.cachePath, this.route.toCache())
+  }
+
+  /**
+   * restores routes from the cache file. Returns false
+   * when cache does not exists, so that routes can
+   * be registered as usual.
+   *
+   * @return {Boolean}
+   *
+   * @example
+   * if (!(yield RouteCache.load())) {
+   *   require('./routes')
+   * }
+   *
+   * @public
+   */
+  * load (): any {
+    if (!(yield this.exists())) {
+      return false
+    }
+    this.route.fromCache(yield fs.readJson(this.cachePath))
+    return true
+  }
+
+  /**
+   * removes the cache file
+   *
+   * @example
+   * yield RouteCache.clear()
+   *
+   * @public
+   */
+  * clear (): any {
+    yield fs.remove(this.cachePath)
+  }
+}
@@ -6,8 +6,10 @@
  * For the full copyright and license information, please view the LICENSE
  * file that was distributed with this source code.
 */
+import * as _ from 'lodash'
 import { RouterHelper } from './helpers';
 import { Domains } from './domains';
+import { RouteMatcher } from './matcher'
 import { Util } from '../../lib/util'
 
 /**
@@ -21,16 +23,24 @@ export class Group {
   private helpers: RouterHelper
   private domains: Domains
   private util: Util
+  private matcher: RouteMatcher
+  private registerFallback: Function
+  private prefixes: Array<string>
+  private domainName: string
 
-  constructor (routes: any) {
+  constructor (routes: any, matcher: RouteMatcher, registerFallback: Function) {
     this.routes = routes
+    this.matcher = matcher
+    this.registerFallback = registerFallback
+    this.prefixes = []
+    this.domainName = null
   }
 
   /**
    * @see module:Route~middlewares
    */
   middlewares (): any {
-    this.helpers.appendMiddleware(
+    this.helpers.addGroupMiddleware(
       this.routes,
       this.util.spread.apply(this, arguments)
     )
@@ -57,7 +67,27 @@ export class Group {
    * @public
    */
   prefix (pattern: string): Object {
+    this.prefixes.push(pattern)
     this.helpers.prefixRoute(this.routes, pattern)
+    this.matcher.invalidate()
+    return this
+  }
+
+  /**
+   * prefix names of the routes inside the group
+   *
+   * @param  {String} prefix
+   *
+   * @return {Object} - reference to this for chaining
+   *
+   * @example
+   * Route.group('...').as('admin.')
+   *
+   * @public
+   */
+  as (prefix: string): Object {
+    this.helpers.prefixName(this.routes, prefix)
+    this.matcher.invalidate()
     return this
   }
 
@@ -73,9 +103,70 @@ export class Group {
    *
    * @public
    */
-  domain (domain: string): void {
+  domain (domain: string): Object {
+    this.domainName = this.domainName || domain
     this.domains.add(this.helpers.makeRoutePattern(domain))
     this.helpers.addDomain(this.routes, domain)
+    this.matcher.invalidate()
+    return this
+  }
+
+  /**
+   * @see module:Route~where
+   */
+  where (key: string|Object, matcher?: RegExp|string, cast?: Function): Object {
+    this.helpers.addConstraints(this.routes, this.helpers.makeConstraints(key, matcher, cast))
+    return this
+  }
+
+  /**
+   * @see module:Route~version
+   */
+  version (range: number|string): Object {
+    this.helpers.addVersion(this.routes, this.helpers.makeVersionRange(range))
+    return this
+  }
+
+  /**
+   * registers fallback for urls under the group prefix,
+   * prefix and domain defined on the group so far
+   * are applied to the fallback route.
+   *
+   * @param  {Any} handler
+   * @return {Object} - reference to this for chaining
+   *
+   * @example
+   * Route.group('...').prefix('/api').fallback('ApiController.notFound')
+   *
+   * @see module:Route~fallback
+   *
+   * @public
+   */
+  fallback (handler: any): Object {
+    const fallbackRoute = this.registerFallback(handler)
+    _.each(this.prefixes, (pattern) => this.helpers.prefixRoute([fallbackRoute], pattern))
+    if (this.domainName) {
+      this.helpers.addDomain([fallbackRoute], this.domainName)
+    }
+    this.routes.push(fallbackRoute)
+    this.matcher.invalidate()
+    return this
+  }
+
+  /**
+   * @see module:Route~cors
+   */
+  cors (options: Object|boolean): Object {
+    this.helpers.addCors(this.routes, options)
+    return this
+  }
+
+  /**
+   * @see module:Route~bodyParser
+   */
+  bodyParser (options: Object|boolean): Object {
+    this.helpers.addBodyParser(this.routes, options)
+    return this
   }
 
   /**
@@ -83,6 +174,7 @@ export class Group {
    */
   formats (formats: Array<string>, strict: boolean) {
     this.helpers.addFormats(this.routes, formats, strict)
+    this.matcher.invalidate()
     return this
   }
 }
\ No newline at end of file
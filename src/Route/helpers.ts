@@ -12,6 +12,26 @@ import * as _ from 'lodash'
 import { Route } from './index'
 import { CatLog } from 'cat-log'
 import { Util } from '../../lib/util'
+import { RuntimeException, InvalidArgumentException } from '../Exceptions'
+
+/**
+ * named constraints to be used with Route.where
+ *
+ * @type {Object}
+ */
+const constraintPresets = {
+  number: { matcher: /\d+/, cast: (value: string) => Number(value) },
+  uuid: { matcher: /[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/i, cast: null },
+  slug: { matcher: /[a-z0-9]+(?:-[a-z0-9]+)*/, cast: null }
+}
+
+/**
+ * format token added to the end of a route by
+ * Route.formats
+ *
+ * @type {RegExp}
+ */
+const formatsToken = /:format\(\.([^)]*)\)(\??)$/
 
 export class RouterHelper extends Route {
   private pattern: RegExp
@@ -55,6 +75,18 @@ export class RouterHelper extends Route {
     return pathToRegexp(route, [])
   }
 
+  /**
+   * compiles pattern of a route again, domain routes
+   * are matched along with the host.
+   *
+   * @param  {Object} route
+   *
+   * @private
+   */
+  refreshPattern(route: any): void {
+    route.pattern = this.makeRoutePattern(route.domain ? `${route.domain}${route.route}` : route.route)
+  }
+
   /**
    * resolve route from routes store based upon current url
    *
@@ -67,9 +99,6 @@ export class RouterHelper extends Route {
    */
   returnMatchingRouteToUrl(routes: Array<Object>, urlPath: string, verb: string): Object {
     let maps: any = _.filter(routes, function (route: any) {
-      if (route.domain) {
-        route.pattern = route.makeRoutePattern(route.domain + route.route)
-      }
       return (route.pattern.test(urlPath) && _.includes(route.verb, verb))
     })
     maps = maps[0] || {}
@@ -94,7 +123,9 @@ export class RouterHelper extends Route {
     routeShallowCopy.params = {}
 
     _.map(routeShallowCopy.pattern.keys, function (key: any, index: number) {
-      routeShallowCopy.params[key.name] = extracted[index + 1]
+      const constraint = routeShallowCopy.constraints && routeShallowCopy.constraints[key.name]
+      const value = extracted[index + 1]
+      routeShallowCopy.params[key.name] = constraint && constraint.cast && value !== undefined ? constraint.cast(value) : value
     })
     return routeShallowCopy
   }
@@ -132,7 +163,29 @@ export class RouterHelper extends Route {
   }
 
   /**
-   * adds formats to routes or an array of routes
+   * adds middlewares of a group to it's routes. Group
+   * middlewares are executed after the route middlewares
+   * and middlewares of an outer group are executed
+   * before the ones of inner groups.
+   *
+   * @param  {Array}  routes
+   * @param  {Array}  middlewares
+   *
+   * @private
+   */
+  addGroupMiddleware(routes: Array<Object>, middlewares: Array<any>): void {
+    _.each(routes, (route: any) => {
+      const groupMiddlewares = route.groupMiddlewares || 0
+      const position = route.middlewares.length - groupMiddlewares
+      route.middlewares = route.middlewares.slice(0, position).concat(middlewares, route.middlewares.slice(position))
+      route.groupMiddlewares = groupMiddlewares + middlewares.length
+    })
+  }
+
+  /**
+   * adds formats to routes or an array of routes. Formats
+   * are merged with the formats already defined on
+   * a route, which keeps it's strict flag.
    *
    * @param  {Array|Object}   routes
    * @param  {Array}   format
@@ -140,17 +193,285 @@ export class RouterHelper extends Route {
    * @private
    */
   addFormats(routes: any, formats: Array<string>, strict: boolean) {
-    const flag = strict ? '' : '?'
-    const formatsPattern = `:format(.${formats.join('|.')})${flag}`
-    if (_.isArray(routes)) {
-      _.each(routes, function (route: any) {
-        route.route = `${route.route}${formatsPattern}`
-        route.pattern = route.makeRoutePattern(route.route)
+    _.each(_.isArray(routes) ? routes : [routes], (route: any) => {
+      const defined = route.route.match(formatsToken)
+      const routeFormats = defined ? _.union(defined[1].split('|.'), formats) : formats
+      const flag = defined ? defined[2] : (strict ? '' : '?')
+      route.route = `${route.route.replace(formatsToken, '')}:format(.${routeFormats.join('|.')})${flag}`
+      this.refreshPattern(route)
+    })
+  }
+
+  /**
+   * returns a serializable description of a route, closures
+   * and regular expressions are converted to strings.
+   *
+   * @param  {Object} route
+   * @return {Object}
+   *
+   * @private
+   */
+  serializeRoute(route: any): Object {
+    return {
+      verb: _.clone(route.verb),
+      url: route.domain ? `${route.domain}${route.route}` : route.route,
+      route: route.route,
+      domain: route.domain,
+      name: route.name,
+      group: route.group,
+      middlewares: _.clone(route.middlewares),
+      handler: typeof (route.handler) === 'string' ? route.handler : (route.handler ? 'Closure' : null),
+      constraints: _.mapValues(route.constraints || {}, (constraint: any) => constraint.source),
+      version: route.version ? this.formatVersionRange(route.version) : null
+    }
+  }
+
+  /**
+   * returns a copy of route to be written inside routes
+   * cache. Compiled pattern is saved along with it's
+   * keys, so that it can be restored without
+   * parsing the route again.
+   *
+   * @param  {Object} route
+   * @return {Object}
+   *
+   * @throws {RuntimeException} If route makes use of closures
+   *
+   * @private
+   */
+  cacheRoute(route: any): Object {
+    const hasClosure = (value: any) => typeof (value) === 'function'
+    if (route.handler !== null && typeof (route.handler) !== 'string') {
+      throw RuntimeException.unserializableRoute(`route ${route.route}`)
+    }
+    if (_.some(route.constraints, (constraint: any) => constraint.cast && !constraint.preset) || _.some(route.cors, hasClosure)) {
+      throw RuntimeException.unserializableRoute(`route ${route.route}`)
+    }
+    const cachedRoute: any = _.omit(route, ['pattern', 'constraints', 'matchedVerb'])
+    cachedRoute.pattern = { source: route.pattern.source, flags: route.pattern.flags, keys: route.pattern.keys }
+    if (route.constraints) {
+      cachedRoute.constraints = _.mapValues(route.constraints, (constraint: any) => {
+        return { source: constraint.source, flags: constraint.flags, preset: constraint.preset }
+      })
+    }
+    return cachedRoute
+  }
+
+  /**
+   * restores a route from the copy returned by cacheRoute
+   *
+   * @param  {Object} cachedRoute
+   * @return {Object}
+   *
+   * @private
+   */
+  restoreRoute(cachedRoute: any): Object {
+    const route: any = _.omit(cachedRoute, ['pattern', 'constraints'])
+    route.pattern = new RegExp(cachedRoute.pattern.source, cachedRoute.pattern.flags)
+    route.pattern.keys = cachedRoute.pattern.keys
+    if (cachedRoute.constraints) {
+      route.constraints = _.mapValues(cachedRoute.constraints, (constraint: any) => {
+        return this.makeConstraint(constraint.preset || new RegExp(constraint.source, constraint.flags))
       })
-    } else {
-      routes.route = `${routes.route}${formatsPattern}`
-      routes.pattern = routes.makeRoutePattern(routes.route)
     }
+    return route
+  }
+
+  /**
+   * makes a constraint from a regular expression or
+   * name of a preset.
+   *
+   * @param  {RegExp|String} matcher
+   * @param  {Function} [cast]
+   * @return {Object}
+   *
+   * @throws {InvalidArgumentException} If preset does not exists
+   *
+   * @private
+   */
+  makeConstraint(matcher: RegExp|string, cast?: Function): Object {
+    if (typeof (matcher) === 'string') {
+      const preset = constraintPresets[matcher]
+      if (!preset) {
+        throw InvalidArgumentException.invalidParameter(`${matcher} is not a valid route constraint`)
+      }
+      const presetConstraint: any = this.makeConstraint(preset.matcher, cast || preset.cast)
+      presetConstraint.preset = cast ? null : matcher
+      return presetConstraint
+    }
+    if (!_.isRegExp(matcher)) {
+      throw InvalidArgumentException.invalidParameter('Route constraint must be a regular expression or a preset name')
+    }
+    const pattern = new RegExp(`^(?:${matcher.source})$`, matcher.flags)
+    return { pattern, source: matcher.source, flags: matcher.flags, cast: cast || null, preset: null }
+  }
+
+  /**
+   * makes constraints for the arguments passed to
+   * Route.where
+   *
+   * @param  {String|Object} key - param name or an object of params
+   *                               and matchers
+   * @param  {RegExp|String} [matcher]
+   * @param  {Function} [cast]
+   * @return {Object}
+   *
+   * @private
+   */
+  makeConstraints(key: any, matcher?: RegExp|string, cast?: Function): Object {
+    const matchers = _.isPlainObject(key) ? key : { [key]: matcher }
+    return _.mapValues(matchers, (value: any) => this.makeConstraint(value, cast))
+  }
+
+  /**
+   * adds constraints to a route or group of routes. Constraints
+   * defined on a route are kept over group constraints.
+   *
+   * @param  {Array|Object}   routes
+   * @param  {Object}   constraints - made via makeConstraints
+   *
+   * @private
+   */
+  addConstraints(routes: any, constraints: Object): void {
+    if (!_.isArray(routes)) {
+      routes.constraints = _.assign({}, routes.constraints, constraints)
+      return
+    }
+    _.each(routes, (route: any) => {
+      route.constraints = _.assign({}, constraints, route.constraints)
+    })
+  }
+
+  /**
+   * sets cors options on a route or group of routes. Options
+   * defined on a route are kept over group options.
+   *
+   * @param  {Array|Object}   routes
+   * @param  {Object|Boolean}   options
+   *
+   * @private
+   */
+  addCors(routes: any, options: any): void {
+    this._addOptions(routes, 'cors', options)
+  }
+
+  /**
+   * sets body parser options on a route or group of routes.
+   * Options defined on a route are kept over group
+   * options.
+   *
+   * @param  {Array|Object}   routes
+   * @param  {Object|Boolean}   options
+   *
+   * @private
+   */
+  addBodyParser(routes: any, options: any): void {
+    this._addOptions(routes, 'bodyParser', options)
+  }
+
+  /**
+   * sets options under a given key on a route or group of
+   * routes. false disables the feature for the route.
+   *
+   * @param  {Array|Object}   routes
+   * @param  {String}   key
+   * @param  {Object|Boolean}   options
+   *
+   * @private
+   */
+  _addOptions(routes: any, key: string, options: any): void {
+    if (!_.isArray(routes)) {
+      routes[key] = options
+      return
+    }
+    _.each(routes, (route: any) => {
+      if (route[key] === undefined) {
+        route[key] = options
+      } else if (route[key] !== false && options !== false) {
+        route[key] = _.assign({}, options, route[key])
+      }
+    })
+  }
+
+  /**
+   * makes a version range from a given expression. A
+   * number defines a single version, 1-3 defines
+   * versions from 1 to 3 and 2+ defines version
+   * 2 and all the versions after it.
+   *
+   * @param  {Number|String} range
+   * @return {Object}
+   *
+   * @throws {InvalidArgumentException} If range is not a valid expression
+   *
+   * @private
+   */
+  makeVersionRange(range: number|string): Object {
+    const tokens = String(range).trim().match(/^(\d+)(?:(\+)|-(\d+))?$/)
+    if (!tokens) {
+      throw InvalidArgumentException.invalidParameter(`${range} is not a valid route version`)
+    }
+    const from = Number(tokens[1])
+    const to = tokens[2] ? null : Number(tokens[3] || tokens[1])
+    if (to !== null && to < from) {
+      throw InvalidArgumentException.invalidParameter(`${range} is not a valid route version`)
+    }
+    return { from, to }
+  }
+
+  /**
+   * converts a version range back to it's expression
+   *
+   * @param  {Object} range
+   * @return {String}
+   *
+   * @private
+   */
+  formatVersionRange(range: any): string {
+    if (range.to === null) {
+      return `${range.from}+`
+    }
+    return range.from === range.to ? `${range.from}` : `${range.from}-${range.to}`
+  }
+
+  /**
+   * tells whether two routes serve a common version.
+   * Versioned routes never overlap with routes
+   * without a version, since the versioned
+   * one is picked first.
+   *
+   * @param  {Object} [range]
+   * @param  {Object} [otherRange]
+   * @return {Boolean}
+   *
+   * @private
+   */
+  versionsOverlap(range: any, otherRange: any): boolean {
+    if (!range || !otherRange) {
+      return !range && !otherRange
+    }
+    const upTo = (version: any) => version.to === null ? Infinity : version.to
+    return range.from <= upTo(otherRange) && otherRange.from <= upTo(range)
+  }
+
+  /**
+   * adds version range to a single route or group of
+   * routes. Routes already having a version are left
+   * untouched when adding to a group.
+   *
+   * @param  {Array|Object} routes
+   * @param  {Object} range
+   *
+   * @private
+   */
+  addVersion(routes: any, range: Object): void {
+    if (!_.isArray(routes)) {
+      routes.version = range
+      return
+    }
+    _.each(routes, (route: any) => {
+      route.version = route.version || range
+    })
   }
 
   /**
@@ -164,15 +485,16 @@ export class RouterHelper extends Route {
    */
   prefixRoute(routes: Array<string>, prefix: string): void {
     prefix = prefix.startsWith('/') ? prefix : `/${prefix}`
-    _.each(routes, function (route: any) {
+    _.each(routes, (route: any) => {
       route.route = route.route === '/' ? prefix : prefix + route.route
-      route.pattern = this.makeRoutePattern(route.route)
+      this.refreshPattern(route)
       return route
     })
   }
 
   /**
-   * adds domain to group of routes.
+   * adds domain to group of routes. Routes already having
+   * a domain from an inner group are left untouched.
    *
    * @param  {Array}     routes
    * @param  {String}     domain
@@ -180,8 +502,43 @@ export class RouterHelper extends Route {
    * @private
    */
   addDomain(routes: Array<string>, domain: string) {
-    _.each(routes, function (route: any) {
+    _.each(routes, (route: any) => {
+      if (route.domain) {
+        return
+      }
       route.domain = domain
+      this.refreshPattern(route)
+    })
+  }
+
+  /**
+   * tells whether a route has been given a name, since
+   * routes without one are named after their path.
+   *
+   * @param  {Object}  route
+   * @return {Boolean}
+   *
+   * @private
+   */
+  hasExplicitName(route: any): boolean {
+    return !!route.name && !route.name.startsWith('/')
+  }
+
+  /**
+   * prefixes names of a group of routes. Routes without
+   * a name are named after their path and are left
+   * untouched.
+   *
+   * @param  {Array}     routes
+   * @param  {String}     prefix
+   *
+   * @private
+   */
+  prefixName(routes: Array<string>, prefix: string) {
+    _.each(routes, (route: any) => {
+      if (this.hasExplicitName(route)) {
+        route.name = `${prefix}${route.name}`
+      }
     })
   }
 
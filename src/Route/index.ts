@@ -8,9 +8,12 @@ import { RouterHelper } from './helpers'
 import { Group } from './group'
 import { Resource } from './resource'
 import { Domains } from './domains'
+import { RouteMatcher } from './matcher'
 import { Util } from '../../lib/util'
+import { RuntimeException } from '../Exceptions'
 import * as  _ from 'lodash'
 import { CatLog } from 'cat-log'
+import { Ioc } from 'adonis-fold'
 
 /**
  * Create and register routes using regular expressions
@@ -22,8 +25,15 @@ export class Route {
   public helpers: RouterHelper
   protected _routes: Array<Object>
   private activeGroup: string
+  private openGroups: Array<Array<Object>>
   private resources: Object
   private domains: Domains
+  protected matcher: RouteMatcher
+  private binders: Object
+  private actionOverrides: Object
+  protected strictMode: boolean
+  private reportedConflicts: Object
+  private checkedRoutes: number
 
   constructor() {
     this.log = new CatLog('adonis:framework')
@@ -39,6 +49,51 @@ export class Route {
      * @private
      */
     this.activeGroup = null
+    /**
+     * routes registered under each of the groups being
+     * defined, outer groups come first
+     * @type {Array}
+     * @private
+     */
+    this.openGroups = []
+    /**
+     * prefix tree used to resolve routes
+     * @type {RouteMatcher}
+     * @private
+     */
+    this.matcher = new RouteMatcher()
+    /**
+     * binders registered to resolve route params
+     * @type {Object}
+     * @private
+     */
+    this.binders = {}
+    /**
+     * resource actions defined via resourceActions
+     * @type {Object}
+     * @private
+     */
+    this.actionOverrides = {}
+    /**
+     * whether route conflicts are thrown instead
+     * of being logged
+     * @type {Boolean}
+     * @private
+     */
+    this.strictMode = false
+    /**
+     * conflicts already logged, to warn only once
+     * @type {Object}
+     * @private
+     */
+    this.reportedConflicts = {}
+    /**
+     * number of leading routes already checked
+     * for conflicts
+     * @type {Number}
+     * @private
+     */
+    this.checkedRoutes = 0
 
     this.resources = this.resource
   }
@@ -55,7 +110,9 @@ export class Route {
   public set routes(value:Array<Object>) { this._routes = value }
 
   /**
-   * clear registered routes and other local variables
+   * clear registered routes and other local variables.
+   * Strict mode is kept, since it is set from the
+   * config.
    *
    * @method new
    *
@@ -63,7 +120,31 @@ export class Route {
    */
   new(): void {
     this.activeGroup = null
+    this.openGroups = []
     this.routes = []
+    this.binders = {}
+    this.actionOverrides = {}
+    this.reportedConflicts = {}
+    this.checkedRoutes = 0
+    this.matcher.invalidate()
+  }
+
+  /**
+   * throw an error when two routes share the same verb
+   * and pattern or the same name, instead of logging
+   * a warning. Enabled via app.http.strictRoutes.
+   *
+   * @method strict
+   *
+   * @param  {Boolean} [enabled=true]
+   *
+   * @example
+   * Route.strict()
+   *
+   * @public
+   */
+  strict(enabled?: boolean): void {
+    this.strictMode = enabled !== false
   }
 
   /**
@@ -85,8 +166,11 @@ export class Route {
    * @public
    */
   public route(route: Array<string>|string, verb: Array<string>, handler: any): Object|any {
+    this._assertCompletedRoutes()
     let constructedRoute = this.helpers.construct(route, verb, handler, this.activeGroup)
     this.routes.push(constructedRoute)
+    _.each(this.openGroups, (groupRoutes) => groupRoutes.push(constructedRoute))
+    this.matcher.invalidate()
     return this
   }
 
@@ -135,18 +219,91 @@ export class Route {
    * @method render
    *
    * @param  {String} view
+   * @param  {Object} [data] - static data to be passed to the view
    * @return {Object}
    *
    * @public
    */
-  render(view: string): Object {
+  render(view: string, data?: Object): Object {
     var route:any = this._lastRoute()
     route.handler = function* (request, response) {
-      yield response.sendView(view, { request })
+      yield response.sendView(view, _.assign({}, data, { request }))
     }
     return this
   }
 
+  /**
+   * registers a get route to render a given view with
+   * static data. View is stored on the route and is
+   * rendered by the server, so that the route can
+   * be cached.
+   *
+   * @method view
+   *
+   * @param  {String} route
+   * @param  {String} view
+   * @param  {Object} [data]
+   * @return {Object}
+   *
+   * @example
+   * Route.view('/about', 'pages.about', {title: 'About us'})
+   *
+   * @public
+   */
+  view(route: string, view: string, data?: Object): Object {
+    this.on(route)
+    const lastRoute: any = this._lastRoute()
+    lastRoute.view = { name: view, data: data || {} }
+    return this
+  }
+
+  /**
+   * registers a route to redirect requests to a given url
+   * or a named route. Params of the matched route are
+   * used to make url for the named route. Redirect
+   * is stored on the route and is sent by the
+   * server, so that the route can be cached.
+   *
+   * @method redirect
+   *
+   * @param  {String} route
+   * @param  {String} toUrl - url, route pattern or name of the route
+   * @param  {Number} [status=302]
+   * @return {Object}
+   *
+   * @example
+   * Route.redirect('/home', '/')
+   * Route.redirect('/posts/:id', 'articles.show')
+   *
+   * @public
+   */
+  redirect(route: string, toUrl: string, status?: number): Object {
+    this.any(route, null)
+    const lastRoute: any = this._lastRoute()
+    lastRoute.redirect = { to: toUrl, status: status || 302 }
+    return this
+  }
+
+  /**
+   * registers a route to redirect requests permanently
+   *
+   * @method permanentRedirect
+   *
+   * @param  {String} route
+   * @param  {String} toUrl - url, route pattern or name of the route
+   * @return {Object}
+   *
+   * @see redirect
+   *
+   * @example
+   * Route.permanentRedirect('/blog', '/articles')
+   *
+   * @public
+   */
+  permanentRedirect(route: string, toUrl: string): Object {
+    return this.redirect(route, toUrl, 301)
+  }
+
   /**
    * register route with POST verb
    *
@@ -304,10 +461,136 @@ export class Route {
    */
   as(name: string) {
     let lastRoute: any = this._lastRoute()
+    /**
+     * groups may prefix names of their routes, which are
+     * checked once routes are resolved.
+     */
+    if (!this.openGroups.length) {
+      this._assertUniqueName(name, lastRoute)
+    }
     lastRoute.name = name
     return this
   }
 
+  /**
+   * throws the conflict in strict mode, otherwise logs
+   * it as a warning.
+   *
+   * @param  {Object} error
+   *
+   * @throws {RuntimeException} If strict mode is enabled
+   *
+   * @private
+   */
+  _reportConflict(error: any): void {
+    if (this.strictMode) {
+      throw error
+    }
+    if (!this.reportedConflicts[error.message]) {
+      this.reportedConflicts[error.message] = true
+      this.log.warn(error.message)
+    }
+  }
+
+  /**
+   * makes sure a name is not given to any other route
+   *
+   * @param  {String} name
+   * @param  {Object} [route] - route being named
+   *
+   * @throws {RuntimeException} If name has been given to another route
+   *                            in strict mode
+   *
+   * @private
+   */
+  _assertUniqueName(name: string, route?: Object): void {
+    const namedRoute = _.find(this.routes, (registeredRoute: any) => registeredRoute !== route && registeredRoute.name === name)
+    if (namedRoute) {
+      this._reportConflict(RuntimeException.duplicateRouteName(name))
+    }
+  }
+
+  /**
+   * returns the key shared by routes matching the
+   * same requests, ignoring verbs and versions.
+   *
+   * @param  {Object} route
+   * @return {String}
+   *
+   * @private
+   */
+  _signature(route: any): string {
+    return [route.domain || '', route.route, JSON.stringify(_.mapValues(route.constraints || {}, 'source')), !!route.fallback].join('|')
+  }
+
+  /**
+   * makes sure a route does not share its explicit name,
+   * or a verb and pattern, with any of the given routes.
+   *
+   * @param  {Object} route
+   * @param  {Array}  registeredRoutes
+   *
+   * @throws {RuntimeException} If routes conflict in strict mode
+   *
+   * @private
+   */
+  _assertUniqueRoute(route: any, registeredRoutes: Array<Object>): void {
+    if (this.helpers.hasExplicitName(route) && _.some(registeredRoutes, { name: route.name })) {
+      this._reportConflict(RuntimeException.duplicateRouteName(route.name))
+    }
+
+    const key = this._signature(route)
+    _.each(route.verb, (verb) => {
+      const duplicate = _.find(registeredRoutes, (registered: any) => {
+        return registered.route === route.route && this._signature(registered) === key && _.includes(registered.verb, verb) && this.helpers.versionsOverlap(registered.version, route.version)
+      })
+      if (duplicate) {
+        this._reportConflict(RuntimeException.duplicateRoute(verb, route.route))
+      }
+    })
+  }
+
+  /**
+   * checks routes whose definition is complete and which
+   * have not been checked yet. Chained methods and group
+   * methods may still change the constraints, version or
+   * prefix of a route until the next one is registered,
+   * whereas routes of open groups are left for later.
+   *
+   * @throws {RuntimeException} If routes conflict in strict mode
+   *
+   * @private
+   */
+  _assertCompletedRoutes(): void {
+    const completedRoutes = this.routes.length - (this.openGroups.length ? this.openGroups[0].length : 0)
+    for (let index = this.checkedRoutes; index < completedRoutes; index++) {
+      this._assertUniqueRoute(this.routes[index], this.routes.slice(0, index))
+    }
+    this.checkedRoutes = Math.max(this.checkedRoutes, completedRoutes)
+  }
+
+  /**
+   * makes sure no two routes share the same verb and pattern
+   * or the same name given via as. Routes with different
+   * constraints or versions are not considered duplicates.
+   * Routes are checked as soon as the next one is registered,
+   * and all of them are checked again by the server before
+   * it starts serving requests.
+   *
+   * @method assertUnique
+   *
+   * @throws {RuntimeException} If routes conflict in strict mode
+   *
+   * @example
+   * Route.assertUnique()
+   *
+   * @public
+   */
+  assertUnique(): void {
+    this.checkedRoutes = 0
+    this._assertCompletedRoutes()
+  }
+
   /**
    * returns last route registered inside the route store
    *
@@ -352,9 +635,101 @@ export class Route {
     this.middleware.apply(Route, arguments)
   }
 
+  /**
+   * adds constraints to params of the recently registered
+   * route. Routes are skipped while resolving when a
+   * param does not satisfy it's constraint.
+   *
+   * @method where
+   *
+   * @param  {String|Object} key - param name or an object of params and matchers
+   * @param  {RegExp|String} [matcher] - regular expression or one of
+   *                                     number, uuid and slug presets
+   * @param  {Function} [cast] - method to cast param value
+   * @return {Object} - reference to this for chaining
+   *
+   * @example
+   * Route.get('/user/:id', '...').where('id', 'number')
+   * Route.get('/user/:id', '...').where('id', /\d+/, Number)
+   * Route.get('/post/:id/:slug', '...').where({id: 'number', slug: 'slug'})
+   *
+   * @public
+   */
+  where(key: string|Object, matcher?: RegExp|string, cast?: Function): Object {
+    this.helpers.addConstraints(this._lastRoute(), this.helpers.makeConstraints(key, matcher, cast))
+    return this
+  }
+
+  /**
+   * defines api versions the recently registered route
+   * is available for. Requests for a version having no
+   * route fallback to the highest lower version.
+   *
+   * @method version
+   *
+   * @param  {Number|String} range
+   * @return {Object} - reference to this for chaining
+   *
+   * @example
+   * Route.get('/users', 'V1UsersController.index').version(1)
+   * Route.get('/users', 'UsersController.index').version('2+')
+   * Route.get('/feed', 'FeedController.index').version('1-3')
+   *
+   * @public
+   */
+  version(range: number|string): Object {
+    this.helpers.addVersion(this._lastRoute(), this.helpers.makeVersionRange(range))
+    return this
+  }
+
+  /**
+   * override cors options defined inside config/cors.js
+   * file for the recently registered route. Passing
+   * false disables cors for the route.
+   *
+   * @method cors
+   *
+   * @param  {Object|Boolean} options
+   * @return {Object} - reference to this for chaining
+   *
+   * @example
+   * Route.get('...').cors({origin: 'http://example.com'})
+   * Route.get('...').cors(false)
+   *
+   * @public
+   */
+  cors(options: Object|boolean): Object {
+    this.helpers.addCors(this._lastRoute(), options)
+    return this
+  }
+
+  /**
+   * override body parser options defined inside
+   * config/bodyParser.js file for the recently
+   * registered route. Passing false leaves the
+   * request body unparsed.
+   *
+   * @method bodyParser
+   *
+   * @param  {Object|Boolean} options
+   * @return {Object} - reference to this for chaining
+   *
+   * @example
+   * Route.post('...').bodyParser({json: {limit: '5mb'}})
+   * Route.post('/webhook', '...').bodyParser(false)
+   *
+   * @public
+   */
+  bodyParser(options: Object|boolean): Object {
+    this.helpers.addBodyParser(this._lastRoute(), options)
+    return this
+  }
+
   /**
    * create a new group of routes to apply rules on a group
-   * instead of applying them on every route.
+   * instead of applying them on every route. Groups can
+   * be nested, rules of the outer group are applied
+   * to the routes of inner groups too.
    *
    * @method group
    *
@@ -364,18 +739,64 @@ export class Route {
    *
    * @example
    * Route.group('v1', function () {
+   *   Route.group('admin', function () {
    *
+   *   }).prefix('/admin').as('admin.')
    * }).prefix('/v1').middleware('auth')
    * @public
    */
   group(name: string, cb: Function): any {
+    const parentGroup = this.activeGroup
+    const groupRoutes = []
     this.activeGroup = name
+    this.openGroups.push(groupRoutes)
     cb()
-    const groupRoutes = _.filter(this.routes, function (route: any) {
-      return route.group === this.activeGroup
-    })
-    this.activeGroup = null
-    return new Group(groupRoutes)
+    this.openGroups.pop()
+    this.activeGroup = parentGroup
+    return new Group(groupRoutes, this.matcher, (handler) => this._registerFallback(handler, name))
+  }
+
+  /**
+   * registers a fallback route for a given group and
+   * returns it.
+   *
+   * @param  {Any} handler
+   * @param  {String} group
+   * @return {Object}
+   *
+   * @private
+   */
+  _registerFallback(handler: any, group: string): Object {
+    this.any('/:fallback*', handler)
+    const fallbackRoute: any = this._lastRoute()
+    fallbackRoute.fallback = true
+    fallbackRoute.group = group
+    return fallbackRoute
+  }
+
+  /**
+   * registers a handler to be called when no route matches
+   * the request url. Fallback defined inside a group is
+   * used for urls under the group prefix only.
+   *
+   * @method fallback
+   *
+   * @param  {Any} handler
+   * @return {Object} - reference to this for chaining
+   *
+   * @example
+   * Route.fallback(function * (request, response) {
+   *   yield response.sendView('index')
+   * })
+   * Route.group('api', function () {
+   *   Route.fallback('ApiController.notFound')
+   * }).prefix('/api')
+   *
+   * @public
+   */
+  fallback(handler: any): Object {
+    this._registerFallback(handler, this.activeGroup)
+    return this
   }
 
   /**
@@ -386,24 +807,173 @@ export class Route {
    * @param  {String} urlPath - Path to url
    * @param  {String} verb - Http verb
    * @param  {String} host - Current host
+   * @param  {Number} [version] - Api version requested, url prefixed with
+   *                              the version is matched without it against
+   *                              versioned routes only
    *
-   * @return {Object}
+   * @return {Object} - an empty object when url is not registered, or
+   *                    allowedVerbs when url is registered for other verbs
    *
    * @example
    * Route.resolve('/user/1', 'GET', 'localhost')
+   * Route.resolve('/v2/user/1', 'GET', 'localhost', 2)
    *
    * @public
    */
-  resolve(urlPath: string, verb: string, host: string): Object {
-    if (this.domains.match(host)) {
-      urlPath = `${host}${urlPath}`
+  resolve(urlPath: string, verb: string, host: string, version?: number): Object {
+    /**
+     * routes registered for a domain are matched along with the
+     * host, others are matched using the path alone.
+     */
+    const urlsFor = (path: string, versionedOnly: boolean) => {
+      const paths = this.domains.match(host) ? [`${host}${path}`, path] : [path]
+      return _.map(paths, (url) => ({ url, versionedOnly }))
+    }
+
+    /**
+     * url is matched as it is first, so that routes prefixed with the
+     * version via groups are resolved. Url without the version prefix
+     * is only matched against routes declaring a version.
+     */
+    const versionPrefix = `/v${version}`
+    let urls = urlsFor(urlPath, false)
+    if (version && (urlPath === versionPrefix || urlPath.startsWith(`${versionPrefix}/`))) {
+      urls = urls.concat(urlsFor(urlPath.substr(versionPrefix.length) || '/', true))
     }
-    let resolvedRoute = this.helpers.returnMatchingRouteToUrl(this.routes, urlPath, verb)
-    if (_.size(resolvedRoute.toString()) === 0) {
-      return {}
+    let allowedVerbs = []
+
+    for (const { url, versionedOnly } of urls) {
+      const resolvedRoute = this.matcher.match(this.routes, url, verb, version, versionedOnly)
+      if (!_.isEmpty(resolvedRoute)) {
+        const routeWithArguments: any = this.helpers.returnRouteArguments(resolvedRoute, url)
+        routeWithArguments.binders = this._makeBinders(routeWithArguments)
+        return routeWithArguments
+      }
+      allowedVerbs = allowedVerbs.concat(this.matcher.allowedVerbs(this.routes, url, version, versionedOnly))
+    }
+
+    allowedVerbs = _.uniq(allowedVerbs)
+    if (_.size(allowedVerbs)) {
+      return { allowedVerbs }
+    }
+
+    for (const { url } of urls) {
+      const fallbackRoute: any = this.matcher.fallback(this.routes, url, verb)
+      if (!_.isEmpty(fallbackRoute)) {
+        const routeWithArguments: any = this.helpers.returnRouteArguments(fallbackRoute, url)
+        routeWithArguments.binders = {}
+        return routeWithArguments
+      }
     }
-    return this.helpers.returnRouteArguments(resolvedRoute, urlPath)
-    // return this.helpers.returnRouteArguments(resolvedRoute, urlPath, host)
+    return {}
+  }
+
+  /**
+   * register a binder to resolve a route param to an object
+   * before the route action is called. Binder receives the
+   * param value and the request, returning nothing from
+   * binder will end the request with 404.
+   *
+   * @method bind
+   *
+   * @param  {String} key - name of the param
+   * @param  {Function|String} binder - closure or reference to ioc
+   *                                    container binding
+   * @return {Object} - reference to this for chaining
+   *
+   * @example
+   * Route.bind('user', function * (id) {
+   *   return yield User.find(id)
+   * })
+   * Route.bind('user', 'UserBinder.find')
+   *
+   * @public
+   */
+  bind(key: string, binder: Function|string): Object {
+    this.binders[key] = binder
+    return this
+  }
+
+  /**
+   * returns binders for params of a resolved route. Resource
+   * routes define binding keys for their params, others
+   * are bound using the param name.
+   *
+   * @param  {Object} route
+   * @return {Object}
+   *
+   * @private
+   */
+  _makeBinders(route: any): Object {
+    return _.reduce(route.params, (binders, value, param) => {
+      const key = (route.bindingKeys && route.bindingKeys[param]) || param
+      if (this.binders[key] && value !== undefined) {
+        binders[param] = this.binders[key]
+      }
+      return binders
+    }, {})
+  }
+
+  /**
+   * creates a resource of routes for a single entity, which
+   * does not have an index route or an id param.
+   *
+   * @method singleton
+   *
+   * @param  {String} name - Resource name
+   * @param  {String} controller - Controller to handle resource requests
+   * @returns {Route.resources} - Instance of Resources class
+   *
+   * @example
+   * Route.singleton('profile', 'ProfileController')
+   * Route.singleton('user.profile', 'ProfileController')
+   *
+   * @public
+   */
+  singleton(name: string, controller: string): any {
+    return new Resource(this, name, controller, { singleton: true, actions: this.actionOverrides, strict: this.strictMode })
+  }
+
+  /**
+   * creates a resource of routes without the create and
+   * edit actions, since api's do not render forms.
+   *
+   * @method apiResource
+   *
+   * @param  {String} name - Resource name
+   * @param  {String} controller - Controller to handle resource requests
+   * @returns {Route.resources} - Instance of Resources class
+   *
+   * @example
+   * Route.apiResource('users', 'UsersController')
+   *
+   * @public
+   */
+  apiResource(name: string, controller: string): any {
+    return new Resource(this, name, controller, { api: true, actions: this.actionOverrides, strict: this.strictMode })
+  }
+
+  /**
+   * defines verbs and paths to be used by resource actions,
+   * for all resources registered afterwards. Setting an
+   * action to false removes it from resources.
+   *
+   * @method resourceActions
+   *
+   * @param  {Object} actions
+   *
+   * @example
+   * Route.resourceActions({
+   *   update: { verbs: ['PATCH'] },
+   *   bulkDestroy: { verbs: ['POST'], path: 'delete' }
+   * })
+   *
+   * @public
+   */
+  resourceActions(actions: Object): void {
+    _.each(actions, (action, name) => {
+      this.actionOverrides[name] = action ? _.assign({}, this.actionOverrides[name], action) : false
+    })
   }
 
   /**
@@ -423,24 +993,30 @@ export class Route {
    * @public
    */
   resource(name: string, controller: string): any {
-    return new Resource(this, name, controller)
+    return new Resource(this, name, controller, { actions: this.actionOverrides, strict: this.strictMode })
   }
 
   /**
-   * creates a valid url based on route pattern and parameters and params
+   * creates a valid url based on route pattern and parameters and params.
+   * Urls for named routes registered for a domain include the host
+   * and are made absolute when protocol is defined.
    *
    * @method url
    *
    * @param  {String} pattern
    * @param  {Object} params
+   * @param  {Object} [options]
+   * @param  {String} [options.protocol] - protocol for routes registered for a domain
    * @return {String}
    *
    * @example
    * Route.url('user/:id', {id: 1})
+   * Route.url('account.dashboard', {account: 'virk'}, {protocol: 'https'})
    *
    * @public
    */
-  url(pattern: string, params: Object): string {
+  url(pattern: string, params?: Object, options?: any): string {
+    options = options || {}
     const namedRoute = _.filter(this.routes, function (route: any) {
       return route.name === pattern
     })[0]
@@ -451,11 +1027,37 @@ export class Route {
      */
     if (namedRoute) {
       const resolveRoute = namedRoute.domain ? `${namedRoute.domain}${namedRoute.route}` : namedRoute.route
-      return this.helpers.compileRouteToUrl(resolveRoute, params)
+      const compiledUrl = this.helpers.compileRouteToUrl(resolveRoute, params)
+      return namedRoute.domain && options.protocol ? `${options.protocol}://${compiledUrl}` : compiledUrl
     }
     return this.helpers.compileRouteToUrl(pattern, params)
   }
 
+  /**
+   * creates a signed url for a given route, which can be
+   * verified using request.hasValidSignature or the
+   * signed middleware.
+   *
+   * @method signedUrl
+   *
+   * @param  {String} pattern
+   * @param  {Object} [params]
+   * @param  {Object} [options]
+   * @param  {Number} [options.expiresIn] - seconds after which the url expires
+   * @return {String}
+   *
+   * @example
+   * Route.signedUrl('unsubscribe', {id: 1})
+   * Route.signedUrl('password.reset', {token}, {expiresIn: 3600})
+   *
+   * @public
+   */
+  signedUrl(pattern: string, params?: Object, options?: any): string {
+    options = options || {}
+    const signer = Ioc.use('Adonis/Src/UrlSigner')
+    return signer.sign(this.url(pattern, params, options), options.expiresIn)
+  }
+
   /**
    * returns a route with it's property
    *
@@ -473,6 +1075,74 @@ export class Route {
     return this.routes[index]
   }
 
+  /**
+   * returns a serializable description of all registered
+   * routes, helpful for listing and documenting routes.
+   *
+   * @method list
+   *
+   * @return {Array}
+   *
+   * @example
+   * Route.list()
+   * // [{verb: ['GET', 'HEAD'], url: '/user/:id', name: 'user', handler: 'UserController.show', ...}]
+   *
+   * @public
+   */
+  list(): Array<Object> {
+    return _.map(this.routes, (route) => this.helpers.serializeRoute(route))
+  }
+
+  /**
+   * @see module:Route~list
+   */
+  toJSON(): Array<Object>|Object {
+    return this.list()
+  }
+
+  /**
+   * returns routes and binders to be written inside
+   * routes cache.
+   *
+   * @method toCache
+   *
+   * @return {Object}
+   *
+   * @throws {RuntimeException} If any route or binder makes use of closures
+   *
+   * @public
+   */
+  toCache(): Object {
+    const binders = _.mapValues(this.binders, (binder, key) => {
+      if (typeof (binder) !== 'string') {
+        throw RuntimeException.unserializableRoute(`binder for :${key}`)
+      }
+      return binder
+    })
+    const routes = _.map(this.routes, (route) => this.helpers.cacheRoute(route))
+    return { routes, binders }
+  }
+
+  /**
+   * replaces registered routes and binders with the
+   * ones returned by toCache.
+   *
+   * @method fromCache
+   *
+   * @param  {Object} cache
+   *
+   * @public
+   */
+  fromCache(cache: any): void {
+    this.new()
+    this.routes = _.map(cache.routes, (route) => this.helpers.restoreRoute(route))
+    this.binders = cache.binders
+    _(this.routes).map('domain').compact().uniq().each((domain: string) => {
+      this.domains.add(this.helpers.makeRoutePattern(domain))
+    })
+    this.matcher.invalidate()
+  }
+
   /**
    * removes a route from routes mapping using it's name
    *
@@ -488,6 +1158,8 @@ export class Route {
   remove(name: string) {
     const index = _.findIndex(this.routes, { name })
     this.routes.splice(index, 1)
+    this.checkedRoutes = 0
+    this.matcher.invalidate()
   }
 
   /**
@@ -508,5 +1180,6 @@ export class Route {
   formats(formats: Array<string>, strict: boolean) {
     const lastRoute = this._lastRoute()
     this.helpers.addFormats(lastRoute, formats, strict)
+    this.matcher.invalidate()
   }
 }
@@ -0,0 +1,331 @@
+/**
+ * adonis-framework
+ *
+ * (c) Harminder Virk <virk@adonisjs.com>
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+*/
+
+import * as _ from 'lodash'
+
+/**
+ * a segment is considered static when it does not
+ * contain any path-to-regexp tokens.
+ *
+ * @type {RegExp}
+ */
+const dynamicSegment = /[:(*?+\\]/
+
+interface MatcherNode {
+  children: Object
+  routes: Array<{ index: number, route: any }>
+}
+
+/**
+ * Prefix tree of route segments to find the routes worth
+ * testing for a given url, instead of running every
+ * registered pattern. Routes are stored on the node
+ * of their last static segment and are tested in
+ * the order they were registered.
+ * @class
+ * @alias Route.Matcher
+ */
+export class RouteMatcher {
+  private root: MatcherNode
+  private routes: Array<Object>
+  private compiled: boolean
+
+  constructor () {
+    this.root = this._makeNode()
+    this.routes = null
+    this.compiled = false
+  }
+
+  /**
+   * returns a fresh tree node
+   *
+   * @return {Object}
+   *
+   * @private
+   */
+  _makeNode (): MatcherNode {
+    return { children: {}, routes: [] }
+  }
+
+  /**
+   * returns the string to be matched against route
+   * pattern. Domain routes are matched along with
+   * the host.
+   *
+   * @param  {Object} route
+   * @return {String}
+   *
+   * @private
+   */
+  _routeKey (route: any): string {
+    return route.domain ? `${route.domain}${route.route}` : route.route
+  }
+
+  /**
+   * splits url or route into lowercase segments, since
+   * route patterns are case insensitive. Trailing slash
+   * is dropped, since it is optional when matching.
+   *
+   * @param  {String} url
+   * @return {Array}
+   *
+   * @private
+   */
+  _segments (url: string): Array<string> {
+    const segments = url.toLowerCase().split('/')
+    if (segments.length > 1 && _.last(segments) === '') {
+      segments.pop()
+    }
+    return segments
+  }
+
+  /**
+   * pushes a route to the node of it's last static
+   * segment.
+   *
+   * @param  {Object} route
+   * @param  {Number} index
+   *
+   * @private
+   */
+  _insert (route: any, index: number): void {
+    let node = this.root
+    _.each(this._segments(this._routeKey(route)), (segment) => {
+      if (dynamicSegment.test(segment)) {
+        return false
+      }
+      node.children[segment] = node.children[segment] || this._makeNode()
+      node = node.children[segment]
+    })
+    node.routes.push({ index, route })
+  }
+
+  /**
+   * tells whether route params extracted from url satisfy
+   * the constraints defined via Route.where
+   *
+   * @param  {Object} route
+   * @param  {String} urlPath
+   * @return {Boolean}
+   *
+   * @private
+   */
+  _satisfiesConstraints (route: any, urlPath: string): boolean {
+    if (!route.constraints) {
+      return true
+    }
+    const extracted = route.pattern.exec(urlPath)
+    return _.every(route.pattern.keys, (key: any, index: number) => {
+      const constraint = route.constraints[key.name]
+      const value = extracted[index + 1]
+      return !constraint || value === undefined || constraint.pattern.test(value)
+    })
+  }
+
+  /**
+   * tells whether a route matches a given url
+   *
+   * @param  {Object} route
+   * @param  {String} urlPath
+   * @return {Boolean}
+   *
+   * @private
+   */
+  _matches (route: any, urlPath: string): boolean {
+    return !route.fallback && route.pattern.test(urlPath) && this._satisfiesConstraints(route, urlPath)
+  }
+
+  /**
+   * tells whether a route can serve a given version, which
+   * is true for routes without a version, routes defined
+   * for the version and routes of lower versions.
+   *
+   * @param  {Object} route
+   * @param  {Number} version
+   * @return {Boolean}
+   *
+   * @private
+   */
+  _servesVersion (route: any, version: number): boolean {
+    return !route.version || route.version.from <= version
+  }
+
+  /**
+   * picks the route for a given version from the routes
+   * matching the url. Routes defined for the version
+   * come first, then routes without a version and
+   * finally the highest lower version.
+   *
+   * @param  {Array} routes
+   * @param  {Number} version
+   * @return {Object}
+   *
+   * @private
+   */
+  _pickVersion (routes: Array<any>, version: number): Object {
+    const definedFor = _.find(routes, (route: any) => {
+      return route.version && route.version.from <= version && (route.version.to === null || route.version.to >= version)
+    })
+    if (definedFor) {
+      return definedFor
+    }
+    const unversioned = _.find(routes, (route: any) => !route.version)
+    if (unversioned) {
+      return unversioned
+    }
+    const lowerVersions = _.filter(routes, (route: any) => route.version && route.version.to !== null && route.version.to < version)
+    return _.last(_.sortBy(lowerVersions, (route: any) => route.version.to))
+  }
+
+  /**
+   * marks the tree as stale, it will be compiled again
+   * on next match.
+   *
+   * @method invalidate
+   *
+   * @public
+   */
+  invalidate (): void {
+    this.compiled = false
+  }
+
+  /**
+   * tells whether the tree needs to be compiled before
+   * matching given routes.
+   *
+   * @method isStale
+   *
+   * @param  {Array} routes
+   * @return {Boolean}
+   *
+   * @public
+   */
+  isStale (routes: Array<Object>): boolean {
+    return !this.compiled || this.routes !== routes
+  }
+
+  /**
+   * compiles routes to a prefix tree
+   *
+   * @method compile
+   *
+   * @param  {Array} routes
+   *
+   * @public
+   */
+  compile (routes: Array<Object>): void {
+    this.root = this._makeNode()
+    this.routes = routes
+    _.each(routes, (route, index) => this._insert(route, index))
+    this.compiled = true
+  }
+
+  /**
+   * returns routes which may match a given url, ordered
+   * the way they were registered.
+   *
+   * @method candidates
+   *
+   * @param  {Array} routes
+   * @param  {String} urlPath
+   * @return {Array}
+   *
+   * @public
+   */
+  candidates (routes: Array<Object>, urlPath: string): Array<any> {
+    if (this.isStale(routes)) {
+      this.compile(routes)
+    }
+    let node = this.root
+    let entries = node.routes
+    _.each(this._segments(urlPath), (segment) => {
+      node = node.children[segment]
+      if (!node) {
+        return false
+      }
+      entries = entries.concat(node.routes)
+    })
+    return _.map(_.sortBy(entries, 'index'), 'route')
+  }
+
+  /**
+   * returns verbs of all the routes matching a given url,
+   * regardless of the verb being requested. Routes which
+   * cannot serve the version are skipped.
+   *
+   * @method allowedVerbs
+   *
+   * @param  {Array} routes
+   * @param  {String} urlPath
+   * @param  {Number} [version]
+   * @param  {Boolean} [versionedOnly=false] - skip routes without a version
+   * @return {Array}
+   *
+   * @public
+   */
+  allowedVerbs (routes: Array<Object>, urlPath: string, version?: number, versionedOnly?: boolean): Array<string> {
+    const matched = _.filter(this.candidates(routes, urlPath), (route: any) => {
+      return (!versionedOnly || route.version) && (!version || this._servesVersion(route, version)) && this._matches(route, urlPath)
+    })
+    return _.uniq(_.flatten(_.map(matched, 'verb')))
+  }
+
+  /**
+   * resolve route for a given url and verb. Returns the
+   * same output as RouterHelper.returnMatchingRouteToUrl
+   * but skips routes failing their param constraints.
+   * Versioned routes are picked using the version
+   * when defined.
+   *
+   * @method match
+   *
+   * @param  {Array} routes
+   * @param  {String} urlPath
+   * @param  {String} verb
+   * @param  {Number} [version]
+   * @param  {Boolean} [versionedOnly=false] - skip routes without a version
+   * @return {Object}
+   *
+   * @public
+   */
+  match (routes: Array<Object>, urlPath: string, verb: string, version?: number, versionedOnly?: boolean): Object {
+    const matched = _.filter(this.candidates(routes, urlPath), (route: any) => {
+      return (!versionedOnly || route.version) && _.includes(route.verb, verb) && this._matches(route, urlPath)
+    })
+    const maps: any = (version ? this._pickVersion(matched, version) : matched[0]) || {}
+    if (maps.verb) {
+      maps.matchedVerb = verb
+    } // define which verb has been matched while resolving route
+    return maps
+  }
+
+  /**
+   * returns the fallback route for a given url. Fallback
+   * registered under the longest prefix wins.
+   *
+   * @method fallback
+   *
+   * @param  {Array} routes
+   * @param  {String} urlPath
+   * @param  {String} verb
+   * @return {Object}
+   *
+   * @public
+   */
+  fallback (routes: Array<Object>, urlPath: string, verb: string): Object {
+    const matched = _.filter(this.candidates(routes, urlPath), (route: any) => {
+      return route.fallback && _.includes(route.verb, verb) && route.pattern.test(urlPath)
+    })
+    const maps: any = _.maxBy(matched, (route: any) => this._routeKey(route).length) || {}
+    if (maps.verb) {
+      maps.matchedVerb = verb
+    }
+    return maps
+  }
+}
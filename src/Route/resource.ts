@@ -7,6 +7,44 @@ import { ResourceMember } from './ResourceMember'
 import { ResourceCollection } from './ResourceCollection'
 import { RuntimeException, InvalidArgumentException, HttpException } from '../Exceptions'
 
+interface ResourceAction {
+  verbs: Array<string>
+  path: string
+  member: boolean
+}
+
+interface ResourceOptions {
+  singleton?: boolean
+  api?: boolean
+  actions?: Object
+  strict?: boolean
+}
+
+/**
+ * verbs and paths used by resource actions, they can
+ * be overridden using Route.resourceActions. Member
+ * actions are registered under the :id param.
+ *
+ * @type {Object}
+ */
+const defaultActions = {
+  index: { verbs: ['GET', 'HEAD'], path: '', member: false },
+  create: { verbs: ['GET', 'HEAD'], path: 'create', member: false },
+  store: { verbs: ['POST'], path: '', member: false },
+  show: { verbs: ['GET', 'HEAD'], path: '', member: true },
+  edit: { verbs: ['GET', 'HEAD'], path: 'edit', member: true },
+  update: { verbs: ['PUT', 'PATCH'], path: '', member: true },
+  destroy: { verbs: ['DELETE'], path: '', member: true }
+}
+
+/**
+ * actions rendering html forms, which are not
+ * registered for api resources.
+ *
+ * @type {Array}
+ */
+const formActions = ['create', 'edit']
+
 /**
  * Resource management for Http routes.
  * @class
@@ -22,8 +60,12 @@ export class Resource extends Route {
   public handler: string
   protected _routes: Array<Object>
   private basename: string
+  private isSingleton: boolean
+  private shallowMembers: boolean
+  private memberRoutes: Array<Object>
+  private actions: Object
 
-  constructor(RouterHelper: RouterHelper, pattern: string, handler: any) {
+  constructor(router: Route, pattern: string, handler: any, options?: ResourceOptions) {
     super()
     this.log = super.log
     this.util = super.util
@@ -39,6 +81,12 @@ export class Resource extends Route {
     this.handler = handler
     this.routes = []
     this.basename = pattern.replace('/', '')
+    options = options || {}
+    this.strictMode = !!options.strict
+    this.isSingleton = !!options.singleton
+    this.actions = this._makeActions(options)
+    this.shallowMembers = false
+    this.memberRoutes = []
     this._buildRoutes()
     return this
   }
@@ -52,19 +100,89 @@ export class Resource extends Route {
    * @param  {String}       route
    * @param  {String}       handler
    * @param  {String}       name
+   * @param  {Boolean}      [member=false] - whether route acts on a single :id
    *
    * @return {Object}
    *
    * @private
    */
-  _registerRoute(verb: Array<string>, route: Array<string>|string, handler: string, name: string) {
-    const resourceName = (this.basename === '/' || !this.basename) ? name : `${this.basename}.${name}`
-    super.route(route, verb, `${handler}.${name}`).as(resourceName)
-    const registeredRoute = super._lastRoute()
+  _registerRoute(verb: Array<string>, route: Array<string>|string, handler: string, name: string, member?: boolean) {
+    super.route(route, verb, `${handler}.${name}`).as(this._resourceName(name))
+    const registeredRoute: any = super._lastRoute()
+    registeredRoute.bindingKeys = this._makeBindingKeys()
+    if (member) {
+      this.memberRoutes.push(registeredRoute)
+    }
+    if (member && this.shallowMembers) {
+      registeredRoute.bindingKeys = _.pick(registeredRoute.bindingKeys, 'id')
+    }
     this.routes.push(registeredRoute)
     return registeredRoute
   }
 
+  /**
+   * returns pattern to be used by member routes. Singleton
+   * resources do not have an id and shallow resources
+   * drop the parent segments.
+   *
+   * @return {String}
+   *
+   * @example
+   * user.posts will return
+   * /user/:user_id/posts/:id or /posts/:id when shallow
+   *
+   * @private
+   */
+  _memberPattern(): string {
+    if (this.isSingleton) {
+      return this.pattern
+    }
+    if (this.shallowMembers) {
+      return `/${_.last(this.pattern.split('/'))}/:id`
+    }
+    return `${this.pattern}/:id`
+  }
+
+  /**
+   * returns name of the route for a given action
+   *
+   * @param  {String} action
+   * @return {String}
+   *
+   * @example
+   * user.posts will return user.posts.index for index
+   *
+   * @private
+   */
+  _resourceName(action: string): string {
+    return (this.basename === '/' || !this.basename) ? action : `${this.basename}.${action}`
+  }
+
+  /**
+   * returns binder names for the resource params. The id
+   * is bound via the resource name and parent ids via
+   * the parent names.
+   *
+   * @return {Object}
+   *
+   * @example
+   * post.comments will return
+   * {post_id: 'post', id: 'comments'}
+   *
+   * @private
+   */
+  _makeBindingKeys(): Object {
+    const segments = _.compact(this.basename.split('.'))
+    if (!segments.length) {
+      return {}
+    }
+    const bindingKeys = { id: _.last(segments) }
+    _.each(_.initial(segments), (segment) => {
+      bindingKeys[`${segment}_id`] = segment
+    })
+    return bindingKeys
+  }
+
   /**
    * creates pattern for a given resource by removing
    * {.} with nested route resources.
@@ -85,7 +203,40 @@ export class Resource extends Route {
   }
 
   /**
-   * builds all routes for a given pattern
+   * returns actions to be registered for the resource by
+   * merging actions defined via Route.resourceActions
+   * with the default ones. Singleton resources do not
+   * have an index and api resources skip form actions.
+   *
+   * @param  {Object} options
+   * @return {Object}
+   *
+   * @throws {InvalidArgumentException} If an action does not define any verbs
+   *
+   * @private
+   */
+  _makeActions(options: ResourceOptions): Object {
+    const actions = _.clone(defaultActions)
+    _.each(options.actions, (action: any, name: string) => {
+      if (!action) {
+        delete actions[name]
+        return
+      }
+      action = _.assign({ path: name, member: false }, defaultActions[name], action)
+      action.verbs = _.map(_.isArray(action.verbs) ? action.verbs : _.compact([action.verbs]), (verb: string) => verb.toUpperCase())
+      if (_.isEmpty(action.verbs)) {
+        throw InvalidArgumentException.invalidParameter(`Resource action ${name} must define atleast one verb`)
+      }
+      actions[name] = action
+    })
+    const omitted = options.api ? formActions : []
+    return _.omit(actions, this.isSingleton ? omitted.concat('index') : omitted)
+  }
+
+  /**
+   * builds all routes for a given pattern. Collection
+   * actions are registered before member actions, so
+   * that they are not shadowed by the :id param.
    *
    * @method _buildRoutes
    *
@@ -94,13 +245,14 @@ export class Resource extends Route {
    * @private
    */
   _buildRoutes(): void {
-    this._registerRoute(['GET', 'HEAD'], this.pattern, this.handler, 'index')
-    this._registerRoute(['GET', 'HEAD'], `${this.pattern}/create`, this.handler, 'create')
-    this._registerRoute(['POST'], `${this.pattern}`, this.handler, 'store')
-    this._registerRoute(['GET', 'HEAD'], `${this.pattern}/:id`, this.handler, 'show')
-    this._registerRoute(['GET', 'HEAD'], `${this.pattern}/:id/edit`, this.handler, 'edit')
-    this._registerRoute(['PUT', 'PATCH'], `${this.pattern}/:id`, this.handler, 'update')
-    this._registerRoute(['DELETE'], `${this.pattern}/:id`, this.handler, 'destroy')
+    const actions = _.toPairs(this.actions)
+    const memberActions = _.filter(actions, (pair) => pair[1].member)
+    _.each(_.difference(actions, memberActions).concat(memberActions), (pair: [string, ResourceAction]) => {
+      const member = pair[1].member && !this.isSingleton
+      const base = pair[1].member ? this._memberPattern() : this.pattern
+      const route = pair[1].path ? `${base}/${pair[1].path}` : base
+      this._registerRoute(pair[1].verbs, route, this.handler, pair[0], member)
+    })
   }
 
   /**
@@ -161,9 +313,10 @@ export class Resource extends Route {
   as(pairs: string) {
     const pairKeys = _.keys(pairs)
     const pairTransformedKeys = this._transformKeys(pairKeys)
-    _.each(this.routes, function (route: any) {
+    _.each(this.routes, (route: any) => {
       const pairIndex = pairTransformedKeys.indexOf(route.name)
       if (pairIndex > -1) {
+        this._assertUniqueName(pairs[pairKeys[pairIndex]], route)
         route.name = pairs[pairKeys[pairIndex]]
       }
     })
@@ -223,11 +376,58 @@ export class Resource extends Route {
     return this
   }
 
+  /**
+   * drops parent segments from member routes of a nested
+   * resource, since the id of the child resource is
+   * enough to find it.
+   *
+   * @return {Object} - reference to resource instance for chaining
+   *
+   * @example
+   * Route.resource('post.comments', 'CommentsController').shallow()
+   * // GET /post/:post_id/comments
+   * // GET /comments/:id
+   *
+   * @public
+   */
+  shallow(): Object {
+    if (this.isSingleton || this.basename.indexOf('.') === -1) {
+      return this
+    }
+    const nestedPattern = `/${_.trimStart(this._memberPattern(), '/')}`
+    this.shallowMembers = true
+    const shallowPattern = this._memberPattern()
+    _.each(this.memberRoutes, (route: any) => {
+      route.route = route.route.replace(nestedPattern, shallowPattern)
+      route.bindingKeys = _.pick(route.bindingKeys, 'id')
+      this.helpers.refreshPattern(route)
+    })
+    this.matcher.invalidate()
+    return this
+  }
+
+  /**
+   * See {@link module:Route~where}
+   */
+  where(key: string|Object, matcher?: RegExp|string, cast?: Function): Object {
+    this.helpers.addConstraints(this.routes, this.helpers.makeConstraints(key, matcher, cast))
+    return this
+  }
+
+  /**
+   * See {@link module:Route~version}
+   */
+  version(range: number|string): Object {
+    this.helpers.addVersion(this.routes, this.helpers.makeVersionRange(range))
+    return this
+  }
+
   /**
    * See {@link module:Route~formats}
    */
   formats(formats: Array<string>, strict: boolean) {
     this.helpers.addFormats(this.routes, formats, strict)
+    this.matcher.invalidate()
     return this
   }
 
@@ -252,9 +452,9 @@ export class Resource extends Route {
 
     verbs = verbs || ['GET', 'HEAD']
     verbs = _.isArray(verbs) ? verbs : [verbs]
-    const registeredRoute = this._registerRoute(verbs, `${this.pattern}/:id/${route}`, this.handler, route)
+    const registeredRoute = this._registerRoute(verbs, `${this._memberPattern()}/${route}`, this.handler, route, !this.isSingleton)
     if (typeof (callback) === 'function') {
-      callback(new ResourceMember(registeredRoute))
+      callback(new ResourceMember(registeredRoute, (name, namedRoute) => this._assertUniqueName(name, namedRoute)))
     }
     return this
   }
@@ -282,7 +482,7 @@ export class Resource extends Route {
     verbs = _.isArray(verbs) ? verbs : [verbs]
     const registeredRoute = this._registerRoute(verbs, `${this.pattern}/${route}`, this.handler, route)
     if (typeof (callback) === 'function') {
-      callback(new ResourceCollection(registeredRoute))
+      callback(new ResourceCollection(registeredRoute, (name, namedRoute) => this._assertUniqueName(name, namedRoute)))
     }
     return this
   }
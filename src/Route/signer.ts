@@ -0,0 +1,142 @@
+/**
+ * adonis-framework
+ *
+ * (c) Harminder Virk <virk@adonisjs.com>
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+*/
+
+import * as crypto from 'crypto'
+import * as nodeUrl from 'url'
+import * as querystring from 'querystring'
+import { Config } from '../Config'
+import { Encryption } from '../Encryption'
+import { RuntimeException } from '../Exceptions'
+
+/**
+ * Signs urls using HMAC of their path and query string,
+ * make sure to set APP_KEY inside .env file.
+ * @class
+ * @alias Route.Signer
+ */
+export class UrlSigner {
+  private appKey: string
+  private encryption: Encryption
+
+  constructor (Config: Config, Encryption: Encryption) {
+    this.encryption = Encryption
+    this.appKey = Config.get('app.appKey')
+    if (!this.appKey) {
+      throw RuntimeException.missingAppKey('App key needs to be specified in order to sign urls')
+    }
+  }
+
+  /**
+   * returns HMAC for a given value
+   *
+   * @param  {String} value
+   * @return {String}
+   *
+   * @private
+   */
+  _hashHmac (value: string): string {
+    return this.encryption.hashHmac('sha256', value, this.appKey)
+  }
+
+  /**
+   * appends a key/value pair to the url query string
+   *
+   * @param  {String} url
+   * @param  {String} key
+   * @param  {Mixed} value
+   * @return {String}
+   *
+   * @private
+   */
+  _appendQuery (url: string, key: string, value: any): string {
+    const separator = url.indexOf('?') > -1 ? '&' : '?'
+    return `${url}${separator}${key}=${encodeURIComponent(value)}`
+  }
+
+  /**
+   * returns path and query string of a given url by
+   * removing protocol and host from it.
+   *
+   * @param  {String} url
+   * @return {String}
+   *
+   * @private
+   */
+  _pathOf (url: string): string {
+    if (url.startsWith('/')) {
+      return url
+    }
+    const withoutProtocol = url.replace(/^[a-z][a-z0-9+.-]*:\/\//i, '')
+    const pathIndex = withoutProtocol.indexOf('/')
+    return pathIndex > -1 ? withoutProtocol.substr(pathIndex) : '/'
+  }
+
+  /**
+   * compares two strings in constant time
+   *
+   * @param  {String} value
+   * @param  {String} other
+   * @return {Boolean}
+   *
+   * @private
+   */
+  _safeEqual (value: string, other: string): boolean {
+    const valueBuffer = Buffer.from(value)
+    const otherBuffer = Buffer.from(other)
+    return valueBuffer.length === otherBuffer.length && crypto.timingSafeEqual(valueBuffer, otherBuffer)
+  }
+
+  /**
+   * signs a given url, expiresIn makes the signature
+   * invalid after given number of seconds.
+   *
+   * @param  {String} url
+   * @param  {Number} [expiresIn]
+   * @return {String}
+   *
+   * @example
+   * UrlSigner.sign('/unsubscribe/1')
+   * UrlSigner.sign('/password/reset/1', 3600)
+   *
+   * @public
+   */
+  sign (url: string, expiresIn?: number): string {
+    if (expiresIn) {
+      url = this._appendQuery(url, 'expires', Math.floor(Date.now() / 1000) + expiresIn)
+    }
+    return this._appendQuery(url, 'signature', this._hashHmac(this._pathOf(url)))
+  }
+
+  /**
+   * tells whether a given url has a valid signature and
+   * has not been expired.
+   *
+   * @param  {String} url
+   * @return {Boolean}
+   *
+   * @example
+   * UrlSigner.verify(request.originalUrl())
+   *
+   * @public
+   */
+  verify (url: string): boolean {
+    const signature = url.match(/[?&]signature=([^&]*)/)
+    if (!signature) {
+      return false
+    }
+
+    const unsignedUrl = url.replace(/([?&])signature=[^&]*&?/, '$1').replace(/[?&]$/, '')
+    if (!this._safeEqual(this._hashHmac(this._pathOf(unsignedUrl)), signature[1])) {
+      return false
+    }
+
+    const expires = querystring.parse(nodeUrl.parse(unsignedUrl).query || '').expires
+    return !expires || Number(expires) >= Math.floor(Date.now() / 1000)
+  }
+}
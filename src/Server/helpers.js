@@ -27,3 +27,16 @@ helpers.makeMiddlewareChain = function (middleware, finalHandler, isGlobal, reso
   const routeMiddleware = middleware.resolve(middleware.formatNamedMiddleware(resolvedRoute.middlewares), false)
   return routeMiddleware.concat([finalHandler])
 }
+
+/**
+ * tells whether a value can be yielded inside
+ * a co generator or not.
+ *
+ * @param  {Mixed}  value
+ * @return {Boolean}
+ *
+ * @private
+ */
+helpers.isYieldable = function (value) {
+  return !!value && (typeof (value.then) === 'function' || typeof (value.next) === 'function')
+}
@@ -17,6 +17,8 @@ const Resolver = require('adonis-binding-resolver')
 const Ioc = require('adonis-fold').Ioc
 const resolver = new Resolver(Ioc)
 const CE = require('../Exceptions')
+const Cors = require('../Cors')
+const BodyParser = require('../BodyParser')
 
 /**
  * Http server for adonis framework
@@ -27,6 +29,7 @@ class Server {
   constructor (Request, Response, Route, Helpers, Middleware, Static, Session, Config, Event) {
     this.Request = Request
     this.controllersPath = 'Http/Controllers'
+    this.bindersPath = 'Http/Binders'
     this.Response = Response
     this.Session = Session
     this.route = Route
@@ -35,6 +38,8 @@ class Server {
     this.helpers = Helpers
     this.config = Config
     this.event = Event
+    this.cors = new Cors(Config)
+    this.bodyParser = new BodyParser(Config)
     this.log = new CatLog('adonis:framework')
     this.httpInstance = null
   }
@@ -46,12 +51,16 @@ class Server {
    * @param  {Object} request
    * @param  {Object} response
    * @param  {Function} finalHandler
+   * @param  {Object} resolvedRoute
    *
    * @private
    */
-  _respond (request, response, finalHandler) {
+  _respond (request, response, finalHandler, resolvedRoute) {
     try {
       const chain = helpers.makeMiddlewareChain(this.middleware, finalHandler, true)
+      if (this._hasAction(resolvedRoute)) {
+        chain.unshift(this._makeBodyParserHandler(resolvedRoute.bodyParser))
+      }
       return this._executeChain(chain, request, response)
     } catch (e) {
       this._handleError(e, request, response)
@@ -64,19 +73,100 @@ class Server {
    *
    * @param  {Object}      request
    * @param  {Object}      response
+   * @throws {HttpException} If route is registered for other verbs
    * @throws {HttpException} If there is not registered route action
    *
    * @private
    */
   _callRouteAction (resolvedRoute, request, response) {
-    if (!resolvedRoute.handler) {
+    if (resolvedRoute.allowedVerbs && request.method().toUpperCase() === 'OPTIONS') {
+      return this._respondToOptions(resolvedRoute, request, response)
+    }
+    if (resolvedRoute.allowedVerbs) {
+      response.header('Allow', resolvedRoute.allowedVerbs.join(', '))
+      throw new CE.HttpException(`Method not allowed ${request.method()} ${request.url()}`, 405)
+    }
+    if (!this._hasAction(resolvedRoute)) {
       throw new CE.HttpException(`Route not found ${request.url()}`, 404)
     }
-    const routeAction = this._makeRouteAction(resolvedRoute.handler)
+    this.cors.actual(request, response, resolvedRoute.cors)
+    const routeAction = this._makeRouteAction(this._routeHandler(resolvedRoute))
     const chain = helpers.makeMiddlewareChain(this.middleware, routeAction, false, resolvedRoute)
+    if (resolvedRoute.binders && Object.keys(resolvedRoute.binders).length) {
+      chain.unshift(this._makeBindingsHandler(resolvedRoute.binders))
+    }
     return this._executeChain(chain, request, response)
   }
 
+  /**
+   * responds to OPTIONS request for urls not having an OPTIONS
+   * route, by listing verbs registered for the url. Cors
+   * headers are set using options of the route
+   * registered for the requested verb.
+   *
+   * @param  {Object}      resolvedRoute
+   * @param  {Object}      request
+   * @param  {Object}      response
+   * @return {Promise}
+   *
+   * @private
+   */
+  _respondToOptions (resolvedRoute, request, response) {
+    const requestedVerb = request.header('Access-Control-Request-Method')
+    response.header('Allow', resolvedRoute.allowedVerbs.concat(['OPTIONS']).join(', '))
+
+    if (requestedVerb) {
+      const requestedRoute = this.route.resolve(request.url(), requestedVerb.toUpperCase(), request.hostname(), request.version())
+      if (requestedRoute.verb) {
+        this.cors.preflight(request, response, resolvedRoute.allowedVerbs, requestedRoute.cors)
+      }
+    }
+
+    response.status(204).end()
+    return Promise.resolve()
+  }
+
+  /**
+   * tells whether a resolved route has a handler, a view
+   * to render or a url to redirect to.
+   *
+   * @param  {Object}  resolvedRoute
+   * @return {Boolean}
+   *
+   * @private
+   */
+  _hasAction (resolvedRoute) {
+    return !!(resolvedRoute.handler || resolvedRoute.view || resolvedRoute.redirect)
+  }
+
+  /**
+   * returns handler for a resolved route. Views and redirects
+   * registered via Route.view and Route.redirect are kept
+   * on the route as data and are sent from here.
+   *
+   * @param  {Object} resolvedRoute
+   * @return {Function|String}
+   *
+   * @private
+   */
+  _routeHandler (resolvedRoute) {
+    const route = this.route
+    const view = resolvedRoute.view
+    const redirect = resolvedRoute.redirect
+    if (view) {
+      return function * (request, response) {
+        yield response.sendView(view.name, Object.assign({}, view.data, { request }))
+      }
+    }
+    if (redirect) {
+      return function * (request, response) {
+        const redirectTo = /^[a-z][a-z0-9+.-]*:\/\//i.test(redirect.to) ? redirect.to : route.url(redirect.to, request.params())
+        response.redirect(redirectTo, redirect.status)
+      }
+    }
+    return resolvedRoute.handler
+  }
+
   /**
    * makes route action based upon the type of registered handler
    *
@@ -93,6 +183,54 @@ class Server {
     return resolver.resolveBinding(formattedHandler)
   }
 
+  /**
+   * returns a middleware closure to parse request body
+   * before any global middleware is called.
+   *
+   * @param  {Object|Boolean}   [options] - route options
+   * @return {Function}
+   *
+   * @private
+   */
+  _makeBodyParserHandler (options) {
+    const bodyParser = this.bodyParser
+    return function * (request, response, next) {
+      yield bodyParser.parse(request, options)
+      yield next
+    }
+  }
+
+  /**
+   * returns a middleware closure to resolve route params
+   * using their binders, before any route middleware
+   * or action is called.
+   *
+   * @param  {Object}           binders
+   * @return {Function}
+   *
+   * @throws {HttpException} If binder does not return a value
+   *
+   * @private
+   */
+  _makeBindingsHandler (binders) {
+    const bindersPath = this.bindersPath
+    const Helpers = this.helpers
+    return function * (request, response, next) {
+      const params = request.params()
+      for (const param of Object.keys(binders)) {
+        const binder = typeof (binders[param]) === 'string' ? Helpers.makeNameSpace(bindersPath, binders[param]) : binders[param]
+        resolver.validateBinding(binder)
+        const result = resolver.executeBinding(binder, [params[param], request])
+        const bound = helpers.isYieldable(result) ? yield result : result
+        if (bound === null || bound === undefined) {
+          throw new CE.HttpException(`Unable to find ${param} ${params[param]} for ${request.url()}`, 404)
+        }
+        params[param] = bound
+      }
+      yield next
+    }
+  }
+
   /**
    * handles any errors thrown with in a given request
    * and emit them using the Event provider.
@@ -113,10 +251,31 @@ class Server {
       this.event.fire(['Http', 'error'], error, request, response)
       return
     }
+    if (error instanceof CE.ValidationException) {
+      this._respondToValidationError(error, response)
+      return
+    }
     this.log.error(error.stack)
     response.status(error.status).send(`${error.name}: ${error.message}`)
   }
 
+  /**
+   * redirects html requests back to the form and responds
+   * with errors for ajax and json requests.
+   *
+   * @param  {Object}     error
+   * @param  {Object}     response
+   *
+   * @private
+   */
+  _respondToValidationError (error, response) {
+    if (error.redirectTo) {
+      response.redirect(error.redirectTo)
+      return
+    }
+    response.status(error.status).json({errors: error.errors})
+  }
+
   /**
    * normalize error object by setting required parameters
    * if they does not exists
@@ -205,8 +364,9 @@ class Server {
      * @type {String}
      */
     const method = this._getRequestMethod(request)
-    const resolvedRoute = this.route.resolve(request.url(), method, request.hostname())
+    const resolvedRoute = this.route.resolve(request.url(), method, request.hostname(), request.version())
     request._params = resolvedRoute.params
+    request._route = resolvedRoute
 
     const finalHandler = function * () {
       yield self._callRouteAction(resolvedRoute, request, response)
@@ -217,14 +377,14 @@ class Server {
      * GET or HEAD
      */
     if (method !== 'GET' && method !== 'HEAD') {
-      this._respond(request, response, finalHandler)
+      this._respond(request, response, finalHandler, resolvedRoute)
       return
     }
 
     this._staticHandler(request, response)
     .catch((e) => {
       if (e.status === 404) {
-        this._respond(request, response, finalHandler)
+        this._respond(request, response, finalHandler, resolvedRoute)
         return
       }
       this._handleError(e, request, response)
@@ -238,6 +398,7 @@ class Server {
    */
   getInstance () {
     if (!this.httpInstance) {
+      this.route.assertUnique()
       this.httpInstance = http.createServer(this.handle.bind(this))
     }
 
@@ -0,0 +1,138 @@
+/**
+ * adonis-framework
+ *
+ * (c) Harminder Virk <virk@adonisjs.com>
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+*/
+
+import * as path from 'path'
+import { fs } from 'co-fs-extra'
+import { createReadStream, createWriteStream } from 'fs'
+import { Readable } from 'stream'
+import { Helpers } from '../../Helpers'
+import { InvalidArgumentException } from '../../Exceptions'
+
+/**
+ * Stores files inside a directory on the local disk. Relative
+ * roots are resolved from the storage directory.
+ * @class
+ * @alias StorageLocalDriver
+ */
+export class Local {
+  private root: string
+  private baseUrl: string
+
+  constructor (config: any, Helpers: Helpers) {
+    const root = config.root || ''
+    this.root = path.isAbsolute(root) ? root : Helpers.storagePath(root)
+    this.baseUrl = config.baseUrl || ''
+  }
+
+  /**
+   * returns complete path for a given location
+   *
+   * @param  {String} location
+   *
+   * @return {String}
+   *
+   * @throws {InvalidArgumentException} If location does not resolve
+   *                                    to a path inside the root
+   *
+   * @private
+   */
+  _pathFor (location: string): string {
+    const filePath = path.join(this.root, location)
+    const relativePath = path.relative(this.root, filePath)
+    if (!relativePath || relativePath === '..' || relativePath.startsWith(`..${path.sep}`) || path.isAbsolute(relativePath)) {
+      throw InvalidArgumentException.invalidParameter(`${location} is not a location inside the disk root`)
+    }
+    return filePath
+  }
+
+  /**
+   * writes contents to a given location. Partially
+   * written files are removed when the stream
+   * errors.
+   *
+   * @param  {String} location
+   * @param  {Object|Buffer|String} contents - readable stream or data
+   *
+   * @return {Boolean}
+   */
+  * put (location: string, contents: Readable|Buffer|string): any {
+    const filePath = this._pathFor(location)
+    if (!(contents instanceof Readable)) {
+      yield fs.outputFile(filePath, contents)
+      return true
+    }
+    yield fs.ensureDir(path.dirname(filePath))
+    try {
+      yield new Promise((resolve, reject) => {
+        const destination = createWriteStream(filePath)
+        contents.on('error', (error) => {
+          destination.end()
+          reject(error)
+        })
+        destination.on('error', reject)
+        destination.on('finish', resolve)
+        contents.pipe(destination)
+      })
+    } catch (error) {
+      yield fs.remove(filePath)
+      throw error
+    }
+    return true
+  }
+
+  /**
+   * tells whether a file exists at a given location
+   *
+   * @param  {String} location
+   *
+   * @return {Boolean}
+   */
+  * exists (location: string): any {
+    try {
+      yield fs.stat(this._pathFor(location))
+      return true
+    } catch (e) {
+      return false
+    }
+  }
+
+  /**
+   * removes file from a given location
+   *
+   * @param  {String} location
+   *
+   * @return {Boolean}
+   */
+  * delete (location: string): any {
+    yield fs.remove(this._pathFor(location))
+    return true
+  }
+
+  /**
+   * returns readable stream for a given location
+   *
+   * @param  {String} location
+   *
+   * @return {Object}
+   */
+  getStream (location: string): Readable {
+    return createReadStream(this._pathFor(location))
+  }
+
+  /**
+   * returns public url for a given location
+   *
+   * @param  {String} location
+   *
+   * @return {String}
+   */
+  getUrl (location: string): string {
+    return `${this.baseUrl}/${location}`
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * adonis-framework
+ *
+ * (c) Harminder Virk <virk@adonisjs.com>
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+*/
+
+import { PassThrough, Readable } from 'stream'
+
+/**
+ * Keeps files in memory of the current process. It is
+ * meant to be used when running tests.
+ * @class
+ * @alias StorageMemoryDriver
+ */
+export class Memory {
+  private files: Object
+  private baseUrl: string
+
+  constructor (config: any) {
+    this.files = {}
+    this.baseUrl = config.baseUrl || ''
+  }
+
+  /**
+   * reads a readable stream to a buffer
+   *
+   * @param  {Object} stream
+   *
+   * @return {Promise}
+   *
+   * @private
+   */
+  _read (stream: Readable): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const chunks = []
+      stream.on('data', (chunk) => chunks.push(chunk))
+      stream.on('end', () => resolve(Buffer.concat(chunks)))
+      stream.on('error', reject)
+    })
+  }
+
+  /**
+   * writes contents to a given location
+   *
+   * @param  {String} location
+   * @param  {Object|Buffer|String} contents - readable stream or data
+   *
+   * @return {Boolean}
+   */
+  * put (location: string, contents: Readable|Buffer|string): any {
+    this.files[location] = contents instanceof Readable ? yield this._read(contents) : (typeof (contents) === 'string' ? Buffer.from(contents) : contents)
+    return true
+  }
+
+  /**
+   * tells whether a file exists at a given location
+   *
+   * @param  {String} location
+   *
+   * @return {Boolean}
+   */
+  * exists (location: string): any {
+    return !!this.files[location]
+  }
+
+  /**
+   * removes file from a given location
+   *
+   * @param  {String} location
+   *
+   * @return {Boolean}
+   */
+  * delete (location: string): any {
+    delete this.files[location]
+    return true
+  }
+
+  /**
+   * returns readable stream for a given location
+   *
+   * @param  {String} location
+   *
+   * @return {Object}
+   */
+  getStream (location: string): Readable {
+    const stream = new PassThrough()
+    if (!this.files[location]) {
+      process.nextTick(() => stream.emit('error', new Error(`ENOENT: no such file, ${location}`)))
+      return stream
+    }
+    stream.end(this.files[location])
+    return stream
+  }
+
+  /**
+   * returns url for a given location
+   *
+   * @param  {String} location
+   *
+   * @return {String}
+   */
+  getUrl (location: string): string {
+    return `${this.baseUrl}/${location}`
+  }
+}
@@ -0,0 +1,119 @@
+/**
+ * adonis-framework
+ *
+ * (c) Harminder Virk <virk@adonisjs.com>
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+*/
+
+import * as AWS from 'aws-sdk'
+import { Readable } from 'stream'
+
+/**
+ * Stores files inside a bucket of s3 or any s3 compatible
+ * server like minio. Define endpoint inside the disk
+ * config to use a server other than s3.
+ * @class
+ * @alias StorageS3Driver
+ */
+export class S3 {
+  private s3: any
+  private bucket: string
+  private baseUrl: string
+
+  constructor (config: any) {
+    this.s3 = new AWS.S3({
+      accessKeyId: config.key,
+      secretAccessKey: config.secret,
+      region: config.region,
+      endpoint: config.endpoint,
+      s3ForcePathStyle: !!config.endpoint
+    })
+    this.bucket = config.bucket
+    this.baseUrl = config.baseUrl || this._defaultBaseUrl(config)
+  }
+
+  /**
+   * returns url of the bucket, endpoints are addressed
+   * using the path style.
+   *
+   * @param  {Object} config
+   *
+   * @return {String}
+   *
+   * @private
+   */
+  _defaultBaseUrl (config: any): string {
+    if (config.endpoint) {
+      return `${config.endpoint.replace(/\/$/, '')}/${config.bucket}`
+    }
+    return `https://${config.bucket}.s3.amazonaws.com`
+  }
+
+  /**
+   * writes contents to a given location
+   *
+   * @param  {String} location
+   * @param  {Object|Buffer|String} contents - readable stream or data
+   *
+   * @return {Boolean}
+   */
+  * put (location: string, contents: Readable|Buffer|string): any {
+    yield this.s3.upload({ Bucket: this.bucket, Key: location, Body: contents }).promise()
+    return true
+  }
+
+  /**
+   * tells whether a file exists at a given location
+   *
+   * @param  {String} location
+   *
+   * @return {Boolean}
+   */
+  * exists (location: string): any {
+    try {
+      yield this.s3.headObject({ Bucket: this.bucket, Key: location }).promise()
+      return true
+    } catch (e) {
+      if (e.code === 'NotFound') {
+        return false
+      }
+      throw e
+    }
+  }
+
+  /**
+   * removes file from a given location
+   *
+   * @param  {String} location
+   *
+   * @return {Boolean}
+   */
+  * delete (location: string): any {
+    yield this.s3.deleteObject({ Bucket: this.bucket, Key: location }).promise()
+    return true
+  }
+
+  /**
+   * returns readable stream for a given location
+   *
+   * @param  {String} location
+   *
+   * @return {Object}
+   */
+  getStream (location: string): Readable {
+    return this.s3.getObject({ Bucket: this.bucket, Key: location }).createReadStream()
+  }
+
+  /**
+   * returns public url for a given location
+   *
+   * @param  {String} location
+   *
+   * @return {String}
+   */
+  getUrl (location: string): string {
+    return `${this.baseUrl}/${location}`
+  }
+}
@@ -0,0 +1,18 @@
+/**
+ * adonis-framework
+ *
+ * (c) Harminder Virk <virk@adonisjs.com>
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+*/
+
+import { Local } from './Local'
+import { Memory } from './Memory'
+import { S3 } from './S3'
+
+export const Drivers = {
+  local: Local,
+  memory: Memory,
+  s3: S3
+}
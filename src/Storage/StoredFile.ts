@@ -0,0 +1,84 @@
+/**
+ * adonis-framework
+ *
+ * (c) Harminder Virk <virk@adonisjs.com>
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+*/
+
+import { Readable } from 'stream'
+
+/**
+ * A file stored at a given location of a disk.
+ * @class
+ *
+ * @example
+ * const avatar = yield request.file('avatar').moveToDisk('avatars')
+ * avatar.url()
+ */
+export class StoredFile {
+  private driver: any
+  private location: string
+
+  constructor (driver: any, location: string) {
+    this.driver = driver
+    this.location = location
+  }
+
+  /**
+   * returns url of the file
+   *
+   * @return {String}
+   *
+   * @public
+   */
+  url (): string {
+    return this.driver.getUrl(this.location)
+  }
+
+  /**
+   * tells whether file still exists on the disk
+   *
+   * @return {Boolean}
+   *
+   * @public
+   */
+  * exists (): any {
+    return yield this.driver.exists(this.location)
+  }
+
+  /**
+   * removes file from the disk
+   *
+   * @return {Boolean}
+   *
+   * @public
+   */
+  * delete (): any {
+    return yield this.driver.delete(this.location)
+  }
+
+  /**
+   * returns readable stream for the file contents
+   *
+   * @return {Object}
+   *
+   * @public
+   */
+  stream (): Readable {
+    return this.driver.getStream(this.location)
+  }
+
+  /**
+   * returns the JSON representation of the
+   * stored file
+   *
+   * @return {Object}
+   *
+   * @public
+   */
+  toJSON (): Object {
+    return { location: this.location, url: this.url() }
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * adonis-framework
+ *
+ * (c) Harminder Virk <virk@adonisjs.com>
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+*/
+
+import { Config } from '../Config'
+import { Helpers } from '../Helpers'
+import { Drivers } from './Drivers'
+import { StoredFile } from './StoredFile'
+import { RuntimeException } from '../Exceptions'
+
+/**
+ * Gives access to disks defined inside config/filesystem.js
+ * file. Each disk makes use of a driver to store files.
+ * @class
+ *
+ * @example
+ * filesystem: {
+ *   default: 'local',
+ *   disks: {
+ *     local: { driver: 'local', root: 'uploads', baseUrl: '/uploads' },
+ *     s3: { driver: 's3', key: '', secret: '', bucket: 'uploads', region: 'us-east-1' }
+ *   }
+ * }
+ */
+export class Storage {
+  static drivers: Object
+  private config: any
+  private helpers: Helpers
+  private disks: Object
+
+  /**
+   * Extend storage by adding a new named driver. This
+   * method is used by the IoC container, so feel
+   * free to use Ioc.extend syntax.
+   *
+   * @param  {String} key - name of the driver
+   * @param  {Object} value - Driver implementation
+   *
+   * @example
+   * Ioc.extend('Adonis/Src/Storage', 'dropbox', (app) => {
+   *   return new DropboxDriver()
+   * })
+   */
+  static extend (key: string, value: Object): void {
+    this.drivers = this.drivers || {}
+    this.drivers[key] = value
+  }
+
+  constructor (Config: Config, Helpers: Helpers) {
+    this.config = Config.get('filesystem', {})
+    this.helpers = Helpers
+    this.disks = {}
+  }
+
+  /**
+   * returns driver for a given disk. Drivers are created
+   * once and re-used for next calls.
+   *
+   * @param  {String} [name] - defaults to filesystem.default
+   *
+   * @return {Object}
+   *
+   * @throws {RuntimeException} If disk or it's driver is not defined
+   *
+   * @public
+   */
+  disk (name?: string): any {
+    name = name || this.config.default || 'local'
+    if (this.disks[name]) {
+      return this.disks[name]
+    }
+
+    const diskConfig = (this.config.disks || {})[name]
+    if (!diskConfig) {
+      throw RuntimeException.invalidDisk(name)
+    }
+
+    const extendedDrivers = Storage.drivers || {}
+    const driver = Drivers[diskConfig.driver] ? new Drivers[diskConfig.driver](diskConfig, this.helpers) : extendedDrivers[diskConfig.driver]
+    if (!driver) {
+      throw RuntimeException.invalidStorageDriver(diskConfig.driver)
+    }
+    this.disks[name] = driver
+    return driver
+  }
+
+  /**
+   * returns stored file for a given location
+   *
+   * @param  {String} location
+   * @param  {String} [disk]
+   *
+   * @return {StoredFile}
+   *
+   * @example
+   * Storage.file('avatars/1.png').url()
+   *
+   * @public
+   */
+  file (location: string, disk?: string): StoredFile {
+    return new StoredFile(this.disk(disk), location)
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * adonis-framework
+ *
+ * (c) Harminder Virk <virk@adonisjs.com>
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+*/
+
+/**
+ * Memory store to keep track of attempts within the
+ * current process. Use redis store when running
+ * multiple processes.
+ * @class
+ * @alias ThrottleMemoryStore
+ */
+export class Memory {
+  private hits: Object
+  private pruneAt: number
+
+  constructor () {
+    this.hits = {}
+    this.pruneAt = 0
+  }
+
+  /**
+   * removes expired attempts, at most once a minute
+   * so that hits do not grow with every new key.
+   *
+   * @param  {Number} now
+   *
+   * @private
+   */
+  _prune (now: number): void {
+    if (now < this.pruneAt) {
+      return
+    }
+    this.pruneAt = now + 60000
+    Object.keys(this.hits).forEach((key) => {
+      if (this.hits[key].resetAt <= now) {
+        delete this.hits[key]
+      }
+    })
+  }
+
+  /**
+   * increments attempts for a given key. Attempts are
+   * reset once decay time has been passed.
+   *
+   * @param  {String} key
+   * @param  {Number} decaySeconds
+   *
+   * @return {Object} - attempts and seconds left for reset
+   */
+  * hit (key: string, decaySeconds: number): any {
+    const now = Date.now()
+    this._prune(now)
+    const hit = this.hits[key]
+    if (!hit || hit.resetAt <= now) {
+      this.hits[key] = { attempts: 1, resetAt: now + (decaySeconds * 1000) }
+    } else {
+      hit.attempts++
+    }
+    return {
+      attempts: this.hits[key].attempts,
+      ttl: Math.ceil((this.hits[key].resetAt - now) / 1000)
+    }
+  }
+
+  /**
+   * clears attempts for a given key
+   *
+   * @param  {String} key
+   *
+   * @return {Boolean}
+   */
+  * clear (key: string): any {
+    delete this.hits[key]
+    return true
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * adonis-framework
+ *
+ * (c) Harminder Virk <virk@adonisjs.com>
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+*/
+
+/**
+ * Redis store to share attempts between multiple
+ * processes and servers.
+ * @class
+ * @alias ThrottleRedisStore
+ */
+export class Redis {
+  private redis: any
+
+  /**
+   * Injects ['Adonis/Src/Helpers', 'Adonis/Src/Config', 'Adonis/Addons/RedisFactory']
+   */
+  static get inject (): Array<string> {
+    return ['Adonis/Src/Helpers', 'Adonis/Src/Config', 'Adonis/Addons/RedisFactory']
+  }
+
+  constructor (Helpers: any, Config: any, RedisFactory: any) {
+    this.redis = new RedisFactory(Config.get('throttle.redis'), Helpers, false)
+  }
+
+  /**
+   * increments attempts for a given key. Key is created
+   * along with the expiry inside a transaction, so
+   * that it never lives without a ttl.
+   *
+   * @param  {String} key
+   * @param  {Number} decaySeconds
+   *
+   * @return {Object} - attempts and seconds left for reset
+   */
+  * hit (key: string, decaySeconds: number): any {
+    const results = yield this.redis.multi()
+      .set(key, 0, 'EX', decaySeconds, 'NX')
+      .incr(key)
+      .ttl(key)
+      .exec()
+    const attempts = results[1][1]
+    const ttl = results[2][1]
+    return { attempts, ttl: ttl > 0 ? ttl : decaySeconds }
+  }
+
+  /**
+   * clears attempts for a given key
+   *
+   * @param  {String} key
+   *
+   * @return {Boolean}
+   */
+  * clear (key: string): any {
+    const response = yield this.redis.del(key)
+    return !!response
+  }
+}
@@ -0,0 +1,16 @@
+/**
+ * adonis-framework
+ *
+ * (c) Harminder Virk <virk@adonisjs.com>
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+*/
+
+import { Memory } from './Memory'
+import { Redis } from './Redis'
+
+export const Stores = {
+  memory: Memory,
+  redis: Redis
+}
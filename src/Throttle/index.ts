@@ -0,0 +1,105 @@
+/**
+ * adonis-framework
+ *
+ * (c) Harminder Virk <virk@adonisjs.com>
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+*/
+
+import * as _ from 'lodash'
+import { Ioc } from 'adonis-fold'
+import { Config } from '../Config'
+import { Stores } from './Stores'
+import { RuntimeException } from '../Exceptions'
+
+/**
+ * Keeps track of attempts made for a given key using the
+ * store defined inside config/throttle.js file. Keys
+ * are made using request ip, unless a custom key
+ * method is defined inside the config.
+ * @class
+ */
+export class Throttle {
+  static stores: Object
+  private store: any
+  private prefix: string
+  private keyResolver: Function
+
+  /**
+   * Extend throttle by adding a new named store. This
+   * method is used by the IoC container, so feel
+   * free to use Ioc.extend syntax.
+   *
+   * @param  {String} key - name of the store
+   * @param  {Object} value - Store implementation
+   *
+   * @example
+   * Ioc.extend('Adonis/Src/Throttle', 'mongo', (app) => {
+   *   return new MongoStore()
+   * })
+   */
+  static extend (key: string, value: Object): void {
+    this.stores = this.stores || {}
+    this.stores[key] = value
+  }
+
+  constructor (Config: Config) {
+    const store = Config.get('throttle.store', 'memory')
+    const extendedStores = Throttle.stores || {}
+    this.store = Stores[store] ? Ioc.make(Stores[store]) : extendedStores[store]
+    if (!this.store) {
+      throw RuntimeException.invalidThrottleStore(store)
+    }
+    this.prefix = Config.get('throttle.prefix', 'throttle:')
+    this.keyResolver = Config.get('throttle.key')
+  }
+
+  /**
+   * returns key to track attempts for a given request.
+   * Attempts are tracked separately for every route,
+   * so that routes do not share the limits.
+   *
+   * @param  {Object} request
+   *
+   * @return {String}
+   *
+   * @example
+   * Throttle.keyFor(request)
+   *
+   * @public
+   */
+  keyFor (request: any): string {
+    const key = typeof (this.keyResolver) === 'function' ? this.keyResolver(request) : null
+    const route = request._route || {}
+    const limiter = route.route ? `${route.domain || ''}${route.route}:` : ''
+    return `${this.prefix}${limiter}${_.isNil(key) ? request.ip() : key}`
+  }
+
+  /**
+   * increments attempts for a given key
+   *
+   * @param  {String} key
+   * @param  {Number} decaySeconds
+   *
+   * @return {Object} - attempts and seconds left for reset
+   *
+   * @public
+   */
+  * hit (key: string, decaySeconds: number): any {
+    return yield this.store.hit(key, decaySeconds)
+  }
+
+  /**
+   * clears attempts for a given key
+   *
+   * @param  {String} key
+   *
+   * @return {Boolean}
+   *
+   * @public
+   */
+  * clear (key: string): any {
+    return yield this.store.clear(key)
+  }
+}
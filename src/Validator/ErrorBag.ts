@@ -0,0 +1,111 @@
+/**
+ * adonis-framework
+ *
+ * (c) Harminder Virk <virk@adonisjs.com>
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+*/
+
+import * as _ from 'lodash'
+
+interface ValidationError {
+  field: string
+  validation: string
+  message: string
+}
+
+/**
+ * Holds errors returned by the validator. Errors are
+ * kept in the order rules were defined.
+ * @class
+ */
+export class ErrorBag {
+  private errors: Array<ValidationError>
+
+  constructor () {
+    this.errors = []
+  }
+
+  /**
+   * add an error for a given field
+   *
+   * @param  {String} field
+   * @param  {String} validation - name of the failed rule
+   * @param  {String} message
+   *
+   * @public
+   */
+  add (field: string, validation: string, message: string): void {
+    this.errors.push({ field, validation, message })
+  }
+
+  /**
+   * tells whether any of the rules has failed
+   *
+   * @return {Boolean}
+   *
+   * @public
+   */
+  fails (): boolean {
+    return this.errors.length > 0
+  }
+
+  /**
+   * tells whether a given field has errors
+   *
+   * @param  {String} field
+   * @return {Boolean}
+   *
+   * @example
+   * errors.has('profile.name')
+   *
+   * @public
+   */
+  has (field: string): boolean {
+    return _.some(this.errors, { field })
+  }
+
+  /**
+   * returns error messages for a given field
+   *
+   * @param  {String} field
+   * @return {Array}
+   *
+   * @public
+   */
+  get (field: string): Array<string> {
+    return _.map(_.filter(this.errors, { field }), 'message')
+  }
+
+  /**
+   * returns first error message for a given field
+   * or null when field has no errors
+   *
+   * @param  {String} field
+   * @return {String}
+   *
+   * @public
+   */
+  first (field: string): string {
+    return _.head(this.get(field)) || null
+  }
+
+  /**
+   * returns all errors
+   *
+   * @return {Array}
+   *
+   * @public
+   */
+  all (): Array<ValidationError> {
+    return _.clone(this.errors)
+  }
+
+  /**
+   * @see ErrorBag~all
+   */
+  toJSON (): Array<ValidationError> {
+    return this.all()
+  }
+}
@@ -0,0 +1,225 @@
+/**
+ * adonis-framework
+ *
+ * (c) Harminder Virk <virk@adonisjs.com>
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+*/
+
+import * as _ from 'lodash'
+import { rules, Rule, isNumeric } from './rules'
+import { ErrorBag } from './ErrorBag'
+import { InvalidArgumentException } from '../Exceptions'
+
+interface ParsedRule {
+  name: string
+  args: Array<string>
+}
+
+/**
+ * holding reference to rules added via
+ * Validator.extend
+ *
+ * @type {Object}
+ */
+let extendedRules = {}
+
+/**
+ * Validates an object of values against rules defined
+ * as a pipe separated string or an array.
+ *
+ * Fields can point to nested values using dot notation
+ * and to every item of an array using *.
+ * @class
+ */
+export class Validator {
+
+  /**
+   * add a custom rule
+   *
+   * @param  {String} name
+   * @param  {Function} rule
+   * @param  {String} [message] - default message for the rule
+   *
+   * @example
+   * Validator.extend('even', (value) => value % 2 === 0, 'must be an even number')
+   *
+   * @public
+   */
+  static extend (name: string, rule: Rule, message?: string): void {
+    extendedRules[name] = { rule, message }
+  }
+
+  /**
+   * tells whether a rule has been defined
+   *
+   * @param  {String} name
+   * @return {Boolean}
+   *
+   * @private
+   */
+  _hasRule (name: string): boolean {
+    return !!(rules[name] || extendedRules[name])
+  }
+
+  /**
+   * splits pipe separated rules. Pipes inside the regex
+   * rule are kept, unless they are followed by
+   * another rule.
+   *
+   * @param  {String} fieldRules
+   * @return {Array}
+   *
+   * @example
+   * _splitRules('required|regex:^(a|b)$') // => ['required', 'regex:^(a|b)$']
+   *
+   * @private
+   */
+  _splitRules (fieldRules: string): Array<string> {
+    return _.reduce(fieldRules.split('|'), (definitions: Array<string>, segment: string) => {
+      const previous = _.last(definitions)
+      if (previous && previous.startsWith('regex:') && !this._hasRule(segment.split(':')[0])) {
+        definitions[definitions.length - 1] = `${previous}|${segment}`
+      } else {
+        definitions.push(segment)
+      }
+      return definitions
+    }, [])
+  }
+
+  /**
+   * parses rules for a field into names and arguments
+   *
+   * @param  {String|Array} fieldRules
+   * @return {Array}
+   *
+   * @throws {InvalidArgumentException} If rule is not defined
+   *
+   * @private
+   */
+  _parseRules (fieldRules: string|Array<string>): Array<ParsedRule> {
+    const definitions = typeof (fieldRules) === 'string' ? this._splitRules(fieldRules) : fieldRules
+    return _.map(_.compact(definitions), (definition: string) => {
+      const index = definition.indexOf(':')
+      const name = index > -1 ? definition.substr(0, index) : definition
+      if (!this._hasRule(name)) {
+        throw InvalidArgumentException.invalidParameter(`${name} is not a valid validation rule`)
+      }
+      const args = index > -1 ? definition.substr(index + 1).split(',') : []
+      return { name, args }
+    })
+  }
+
+  /**
+   * expands a field containing * to the path of every
+   * item inside the array.
+   *
+   * @param  {Object} data
+   * @param  {String} field
+   * @return {Array}
+   *
+   * @example
+   * _expandField({users: [{}, {}]}, 'users.*.email')
+   * // => ['users.0.email', 'users.1.email']
+   *
+   * @private
+   */
+  _expandField (data: Object, field: string): Array<string> {
+    const index = field.indexOf('*')
+    if (index === -1) {
+      return [field]
+    }
+    const parent = field.substr(0, index).replace(/\.$/, '')
+    const items = parent ? _.get(data, parent) : data
+    if (!_.isArray(items)) {
+      return []
+    }
+    const prefix = parent ? `${parent}.` : ''
+    return _.flatten(_.map(items, (item, itemIndex) => {
+      return this._expandField(data, `${prefix}${itemIndex}${field.substr(index + 1)}`)
+    }))
+  }
+
+  /**
+   * returns message for a failed rule. Messages defined for
+   * the field and rule come first, then messages for the
+   * rule and finally the default message.
+   *
+   * @param  {Object} messages
+   * @param  {String} field - field as defined inside rules
+   * @param  {String} path - path of the validated value
+   * @param  {String} rule
+   * @return {String}
+   *
+   * @private
+   */
+  _makeMessage (messages: Object, field: string, path: string, rule: string): string {
+    const message = messages[`${path}.${rule}`] || messages[`${field}.${rule}`] || messages[rule]
+    if (message) {
+      return message
+    }
+    if (extendedRules[rule] && extendedRules[rule].message) {
+      return `${path} ${extendedRules[rule].message}`
+    }
+    return `${rule} validation failed on ${path}`
+  }
+
+  /**
+   * returns value of the field at path. Numeric strings
+   * are cast to numbers when the field has the numeric
+   * rule, so that min and max compare them by value.
+   *
+   * @param  {Object} data
+   * @param  {String} path
+   * @param  {Array}  parsedRules
+   * @return {Mixed}
+   *
+   * @private
+   */
+  _getValue (data: Object, path: string, parsedRules: Array<ParsedRule>): any {
+    const value = _.get(data, path)
+    if (typeof (value) === 'string' && isNumeric(value) && _.some(parsedRules, { name: 'numeric' })) {
+      return Number(value)
+    }
+    return value
+  }
+
+  /**
+   * validates data against rules
+   *
+   * @param  {Object} data
+   * @param  {Object} fieldRules - rules for each field
+   * @param  {Object} [messages] - custom error messages
+   * @return {ErrorBag}
+   *
+   * @example
+   * validator.validate(request.all(), {
+   *   email: 'required|email',
+   *   'profile.name': 'required|max:40',
+   *   age: 'numeric|min:18',
+   *   'tags.*': 'in:news,sports'
+   * }, {
+   *   'email.required': 'Enter your email address'
+   * })
+   *
+   * @public
+   */
+  validate (data: Object, fieldRules: Object, messages?: Object): ErrorBag {
+    const errors = new ErrorBag()
+    messages = messages || {}
+    _.each(fieldRules, (definitions: any, field: string) => {
+      const parsedRules = this._parseRules(definitions)
+      _.each(this._expandField(data, field), (path: string) => {
+        const value = this._getValue(data, path, parsedRules)
+        _.each(parsedRules, (parsedRule: ParsedRule) => {
+          const rule = rules[parsedRule.name] || extendedRules[parsedRule.name].rule
+          if (!rule(value, parsedRule.args, path, data)) {
+            errors.add(path, parsedRule.name, this._makeMessage(messages, field, path, parsedRule.name))
+          }
+        })
+      })
+    })
+    return errors
+  }
+}
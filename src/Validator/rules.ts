@@ -0,0 +1,86 @@
+/**
+ * adonis-framework
+ *
+ * (c) Harminder Virk <virk@adonisjs.com>
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+*/
+
+import * as _ from 'lodash'
+
+/**
+ * a rule receives value of the field being validated,
+ * arguments defined next to the rule, the field
+ * path and the complete data object.
+ */
+export interface Rule {
+  (value: any, args: Array<string>, field: string, data: Object): boolean
+}
+
+/**
+ * @type {RegExp}
+ */
+const emailPattern = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+/**
+ * tells whether a value is missing. Rules other than
+ * required skip missing values.
+ *
+ * @param  {Mixed} value
+ * @return {Boolean}
+ */
+const isEmpty = function (value: any): boolean {
+  return value === undefined || value === null || value === '' || (_.isArray(value) && !value.length)
+}
+
+/**
+ * @type {RegExp}
+ */
+const numericPattern = /^\s*-?\d+(\.\d+)?\s*$/
+
+/**
+ * tells whether a value is a number or a numeric
+ * string like form values.
+ *
+ * @param  {Mixed} value
+ * @return {Boolean}
+ */
+export const isNumeric = function (value: any): boolean {
+  return typeof (value) === 'number' ? isFinite(value) : typeof (value) === 'string' && numericPattern.test(value)
+}
+
+/**
+ * returns the size to be compared by min and max rules,
+ * numbers are compared by value, strings and arrays
+ * by their length. Fields validated by the numeric
+ * rule are cast to numbers by the validator.
+ *
+ * @param  {Mixed} value
+ * @return {Number}
+ */
+const sizeOf = function (value: any): number {
+  return typeof (value) === 'number' ? value : _.size(value)
+}
+
+export const rules: { [name: string]: Rule } = {
+  required: (value) => !isEmpty(value),
+
+  email: (value) => isEmpty(value) || emailPattern.test(String(value)),
+
+  numeric: (value) => isEmpty(value) || isNumeric(value),
+
+  min: (value, args) => isEmpty(value) || sizeOf(value) >= Number(args[0]),
+
+  max: (value, args) => isEmpty(value) || sizeOf(value) <= Number(args[0]),
+
+  in: (value, args) => isEmpty(value) || _.includes(args, String(value)),
+
+  /**
+   * arguments are joined back since the expression
+   * itself may contain commas.
+   */
+  regex: (value, args) => isEmpty(value) || new RegExp(args.join(',')).test(String(value)),
+
+  confirmed: (value, args, field, data) => isEmpty(value) || _.get(data, `${field}_confirmation`) === value
+}
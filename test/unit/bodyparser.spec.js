@@ -0,0 +1,164 @@
+'use strict'
+
+/**
+ * adonis-framework
+ *
+ * (c) Harminder Virk <virk@adonisjs.com>
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+*/
+
+const BodyParser = require('../../src/BodyParser')
+const RequestBuilder = require('../../src/Request')
+const File = require('../../src/File')
+const chai = require('chai')
+const expect = chai.expect
+const http = require('http')
+const path = require('path')
+const supertest = require('supertest')
+const co = require('co')
+
+require('co-mocha')
+
+const makeConfig = function (options) {
+  return {
+    get: function (key) {
+      return key === 'bodyParser' ? options : null
+    }
+  }
+}
+
+/**
+ * returns an http server parsing request body and responding
+ * with values read from the request.
+ */
+const makeServer = function (options, routeOptions, beforeParse) {
+  const bodyParser = new BodyParser(makeConfig(options === undefined ? {} : options))
+  return http.createServer(function (req, res) {
+    const Request = new RequestBuilder(makeConfig({}))
+    const request = new Request(req, res)
+    co(function * () {
+      if (beforeParse) {
+        yield beforeParse(req)
+      }
+      yield bodyParser.parse(request, routeOptions)
+    }).then(function () {
+      const avatar = request.file('avatar')
+      res.writeHead(200, {'Content-type': 'application/json'})
+      res.end(JSON.stringify({all: request.all(), raw: request.raw(), file: avatar instanceof File}), 'utf8')
+    }).catch(function (error) {
+      res.writeHead(error.status, {'Content-type': 'application/json'})
+      res.end(JSON.stringify({error: error.message}), 'utf8')
+    })
+  })
+}
+
+describe('BodyParser', function () {
+  it('should parse json body and merge it with query string', function * () {
+    const res = yield supertest(makeServer()).post('/?page=1').send({name: 'doe'}).expect(200)
+    expect(res.body.all).deep.equal({page: '1', name: 'doe'})
+    expect(res.body.raw).to.equal('{"name":"doe"}')
+  })
+
+  it('should parse body of json vendor types', function * () {
+    const res = yield supertest(makeServer())
+      .post('/')
+      .set('Content-Type', 'application/vnd.api+json')
+      .send(JSON.stringify({data: {type: 'users'}}))
+      .expect(200)
+    expect(res.body.all).deep.equal({data: {type: 'users'}})
+  })
+
+  it('should only accept objects and arrays in strict json mode', function * () {
+    const res = yield supertest(makeServer())
+      .post('/')
+      .set('Content-Type', 'application/json')
+      .send('"doe"')
+      .expect(400)
+    expect(res.body.error).to.equal('Invalid JSON body, only objects and arrays are allowed in strict mode')
+  })
+
+  it('should return 400 when json body is malformed', function * () {
+    yield supertest(makeServer())
+      .post('/')
+      .set('Content-Type', 'application/json')
+      .send('{"name":')
+      .expect(400)
+  })
+
+  it('should parse urlencoded body with nested keys', function * () {
+    const res = yield supertest(makeServer())
+      .post('/')
+      .type('form')
+      .send('profile[name]=doe&tags[]=news&tags[]=sports')
+      .expect(200)
+    expect(res.body.all).deep.equal({profile: {name: 'doe'}, tags: ['news', 'sports']})
+  })
+
+  it('should read text body as raw', function * () {
+    const res = yield supertest(makeServer())
+      .post('/')
+      .set('Content-Type', 'text/plain')
+      .send('hello world')
+      .expect(200)
+    expect(res.body.all).deep.equal({})
+    expect(res.body.raw).to.equal('hello world')
+  })
+
+  it('should return 413 when body exceeds the limit', function * () {
+    const res = yield supertest(makeServer({json: {limit: 10}})).post('/').send({name: 'virk and doe'}).expect(413)
+    expect(res.body.error).to.equal('Request entity too large')
+  })
+
+  it('should parse multipart fields and files', function * () {
+    const res = yield supertest(makeServer())
+      .post('/')
+      .field('profile[name]', 'doe')
+      .attach('avatar', path.join(__dirname, '/uploads/npm-logo.svg'))
+      .expect(200)
+    expect(res.body.all).deep.equal({profile: {name: 'doe'}})
+    expect(res.body.file).to.equal(true)
+  })
+
+  it('should give priority to route options over config options', function * () {
+    yield supertest(makeServer({}, {json: {limit: 10}})).post('/').send({name: 'virk and doe'}).expect(413)
+  })
+
+  it('should not parse body when disabled for the route', function * () {
+    const res = yield supertest(makeServer({}, false)).post('/').send({name: 'doe'}).expect(200)
+    expect(res.body.all).deep.equal({})
+    expect(res.body.raw).to.equal(null)
+  })
+
+  it('should not parse body when disabled inside the config', function * () {
+    const res = yield supertest(makeServer(false)).post('/').send({name: 'doe'}).expect(200)
+    expect(res.body.all).deep.equal({})
+    expect(res.body.raw).to.equal(null)
+  })
+
+  it('should replace default types with the configured types', function * () {
+    const server = makeServer({json: {types: ['application/vnd.api+json']}})
+    const json = yield supertest(server).post('/').send({name: 'doe'}).expect(200)
+    expect(json.body.all).deep.equal({})
+    const vendor = yield supertest(server).post('/').type('application/vnd.api+json').send('{"name":"doe"}').expect(200)
+    expect(vendor.body.all).deep.equal({name: 'doe'})
+  })
+
+  it('should skip requests already read by someone else', function * () {
+    const readBody = function (req) {
+      return new Promise((resolve) => {
+        req.on('data', function () {})
+        req.on('end', resolve)
+      })
+    }
+    const res = yield supertest(makeServer({}, null, readBody)).post('/').send({name: 'doe'}).expect(200)
+    expect(res.body.all).deep.equal({})
+  })
+
+  it('should drain body going over the limit', function * () {
+    const server = makeServer({raw: {limit: 10}})
+    const res = yield supertest(server).post('/').type('text/plain').send(new Array(1024 * 64).join('a')).expect(413)
+    expect(res.body.error).to.equal('Request entity too large')
+  })
+})
@@ -0,0 +1,118 @@
+'use strict'
+
+/**
+ * adonis-framework
+ *
+ * (c) Harminder Virk <virk@adonisjs.com>
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+*/
+
+const Cors = require('../../src/Cors')
+const chai = require('chai')
+const expect = chai.expect
+
+const makeConfig = function (options) {
+  return {
+    get: function (key) {
+      return key === 'cors' ? options : null
+    }
+  }
+}
+
+const makeRequest = function (headers) {
+  return {
+    header: function (key) {
+      return headers[key.toLowerCase()] || null
+    }
+  }
+}
+
+const makeResponse = function () {
+  return {
+    headers: {},
+    varyFields: [],
+    header: function (key, value) {
+      this.headers[key] = value
+      return this
+    },
+    vary: function (field) {
+      this.varyFields.push(field)
+      return this
+    }
+  }
+}
+
+describe('Cors', function () {
+  it('should not set any headers when origin is not allowed inside config', function () {
+    const cors = new Cors(makeConfig({}))
+    const response = makeResponse()
+    cors.preflight(makeRequest({origin: 'http://example.com'}), response, ['GET', 'HEAD'])
+    expect(response.headers).deep.equal({})
+  })
+
+  it('should not set any headers when request does not have an origin', function () {
+    const cors = new Cors(makeConfig({origin: true}))
+    const response = makeResponse()
+    cors.preflight(makeRequest({}), response, ['GET', 'HEAD'])
+    expect(response.headers).deep.equal({})
+  })
+
+  it('should reflect request origin and registered verbs for a preflight request', function () {
+    const cors = new Cors(makeConfig({origin: true}))
+    const response = makeResponse()
+    const request = makeRequest({
+      'origin': 'http://example.com',
+      'access-control-request-headers': 'X-Token'
+    })
+    cors.preflight(request, response, ['GET', 'HEAD', 'POST'])
+    expect(response.headers['Access-Control-Allow-Origin']).to.equal('http://example.com')
+    expect(response.headers['Access-Control-Allow-Methods']).to.equal('GET, HEAD, POST')
+    expect(response.headers['Access-Control-Allow-Headers']).to.equal('X-Token')
+    expect(response.headers['Access-Control-Max-Age']).to.equal(90)
+    expect(response.varyFields).deep.equal(['Origin'])
+  })
+
+  it('should only allow origins defined as an array', function () {
+    const cors = new Cors(makeConfig({origin: ['http://example.com']}))
+    const allowed = makeResponse()
+    const denied = makeResponse()
+    cors.preflight(makeRequest({origin: 'http://example.com'}), allowed, ['GET'])
+    cors.preflight(makeRequest({origin: 'http://evil.com'}), denied, ['GET'])
+    expect(allowed.headers['Access-Control-Allow-Origin']).to.equal('http://example.com')
+    expect(denied.headers).deep.equal({})
+  })
+
+  it('should call origin function to find whether origin is allowed', function () {
+    const cors = new Cors(makeConfig({origin: (origin) => origin.endsWith('.example.com')}))
+    const response = makeResponse()
+    cors.preflight(makeRequest({origin: 'http://api.example.com'}), response, ['GET'])
+    expect(response.headers['Access-Control-Allow-Origin']).to.equal('http://api.example.com')
+  })
+
+  it('should give priority to route options over config options', function () {
+    const cors = new Cors(makeConfig({origin: '*', methods: ['GET']}))
+    const response = makeResponse()
+    cors.preflight(makeRequest({origin: 'http://example.com'}), response, ['GET', 'POST'], {methods: ['POST'], credentials: true})
+    expect(response.headers['Access-Control-Allow-Origin']).to.equal('http://example.com')
+    expect(response.headers['Access-Control-Allow-Methods']).to.equal('POST')
+    expect(response.headers['Access-Control-Allow-Credentials']).to.equal('true')
+  })
+
+  it('should not set any headers when cors is disabled for the route', function () {
+    const cors = new Cors(makeConfig({origin: true}))
+    const response = makeResponse()
+    cors.preflight(makeRequest({origin: 'http://example.com'}), response, ['GET'], false)
+    expect(response.headers).deep.equal({})
+  })
+
+  it('should set exposed headers for an actual request', function () {
+    const cors = new Cors(makeConfig({origin: '*', exposeHeaders: ['X-Total', 'X-Page']}))
+    const response = makeResponse()
+    cors.actual(makeRequest({origin: 'http://example.com'}), response)
+    expect(response.headers['Access-Control-Allow-Origin']).to.equal('*')
+    expect(response.headers['Access-Control-Expose-Headers']).to.equal('X-Total, X-Page')
+    expect(response.varyFields).deep.equal([])
+  })
+})
@@ -10,6 +10,7 @@ const File = require('../../src/File')
 const chai = require('chai')
 const path = require('path')
 const fs = require('fs')
+const os = require('os')
 const expect = chai.expect
 
 require('co-mocha')
@@ -116,4 +117,87 @@ describe('File', function () {
   it('should tell whether file exists on tmp path or not', function * () {
     expect(this.file.exists()).to.equal(true)
   })
+
+  context('Content Validation', function () {
+    const uploadsPath = path.join(os.tmpdir(), 'adonis-content-uploads')
+    const makeFile = function (name, type, contents, options) {
+      const tmpPath = path.join(os.tmpdir(), `adonis-${name}`)
+      fs.writeFileSync(tmpPath, contents)
+      return new File({name, type, path: tmpPath, size: contents.length}, options)
+    }
+    const pngBytes = Buffer.from([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A, 0x00, 0x00])
+    const jpegBytes = Buffer.from([0xFF, 0xD8, 0xFF, 0xE0, 0x00, 0x10])
+    const zipBytes = Buffer.from([0x50, 0x4B, 0x03, 0x04, 0x14, 0x00])
+    const exeBytes = Buffer.from('MZ\x90\x00\x03\x00\x00\x00', 'binary')
+
+    it('should detect file type from leading bytes', function * () {
+      const file = makeFile('logo.png', 'image/png', pngBytes, {})
+      expect(yield file.detectedType()).deep.equal({mime: 'image/png', extensions: ['png']})
+      expect(yield makeFile('notes.txt', 'text/plain', 'hello', {}).detectedType()).to.equal(null)
+    })
+
+    it('should move file with detected type inside allowed types', function * () {
+      const file = makeFile('logo.svg', 'image/svg+xml', fs.readFileSync(path.join(__dirname, './uploads/npm-logo.svg')), {allowedTypes: ['image']})
+      yield file.move(uploadsPath)
+      expect(file.moved()).to.equal(true)
+    })
+
+    it('should not move file when declared mime type disagrees with the detected type', function * () {
+      const file = makeFile('photo.jpg', 'image/jpeg', exeBytes, {allowedTypes: ['image']})
+      yield file.move(uploadsPath)
+      expect(file.moved()).to.equal(false)
+      expect(file.errors()).to.equal('Uploaded file is declared as image/jpeg but detected as application/x-msdownload')
+    })
+
+    it('should not move file when extension disagrees with the detected type', function * () {
+      const file = makeFile('photo.jpg', 'application/octet-stream', pngBytes, {allowedTypes: ['image']})
+      yield file.move(uploadsPath)
+      expect(file.errors()).to.equal('Uploaded file is declared as .jpg but detected as image/png')
+    })
+
+    it('should not move file when detected mime is not allowed', function * () {
+      const file = makeFile('logo.png', 'image/png', pngBytes, {allowedMimes: ['image/jpeg']})
+      yield file.move(uploadsPath)
+      expect(file.errors()).to.equal('Uploaded file type image/png is not valid')
+    })
+
+    it('should compare aliases of mime types with the detected type', function * () {
+      const photo = makeFile('photo.jpg', 'image/jpg', jpegBytes, {allowedMimes: ['image/pjpeg']})
+      yield photo.move(uploadsPath)
+      expect(photo.moved()).to.equal(true)
+      const archive = makeFile('archive.zip', 'application/x-zip-compressed', zipBytes, {allowedMimes: ['application/zip']})
+      yield archive.move(uploadsPath)
+      expect(archive.moved()).to.equal(true)
+    })
+
+    it('should validate text files without a signature using the declared mime type', function * () {
+      const file = makeFile('users.csv', 'text/csv', 'name,email\nvirk,virk@adonisjs.com', {allowedMimes: ['text/csv', 'application/json']})
+      yield file.move(uploadsPath)
+      expect(file.moved()).to.equal(true)
+      const json = makeFile('users.json', 'application/json', '{"name": "virk"}', {allowedTypes: ['image']})
+      yield json.move(uploadsPath)
+      expect(json.errors()).to.equal('Uploaded file type application/json is not valid')
+    })
+
+    it('should not move binary file when type cannot be detected', function * () {
+      const file = makeFile('notes.png', 'image/png', Buffer.from([0x00, 0x01, 0x02, 0x03]), {allowedTypes: ['image']})
+      yield file.move(uploadsPath)
+      expect(file.moved()).to.equal(false)
+      expect(file.errors()).to.equal('Uploaded file type could not be detected from it\'s contents')
+    })
+
+    it('should not move text file declared with a binary mime type', function * () {
+      const file = makeFile('notes.png', 'image/png', 'hello', {allowedTypes: ['image']})
+      yield file.move(uploadsPath)
+      expect(file.moved()).to.equal(false)
+      expect(file.errors()).to.equal('Uploaded file type could not be detected from it\'s contents')
+    })
+
+    it('should validate file contents without moving the file', function * () {
+      const file = makeFile('photo.jpg', 'image/jpeg', exeBytes, {allowedTypes: ['image']})
+      expect(yield file.validateContents()).to.equal(false)
+      expect(file.errors()).to.equal('Uploaded file is declared as image/jpeg but detected as application/x-msdownload')
+      expect(yield makeFile('logo.png', 'image/png', pngBytes, {allowedTypes: ['image']}).validateContents()).to.equal(true)
+    })
+  })
 })
@@ -0,0 +1,132 @@
+'use strict'
+
+/**
+ * adonis-framework
+ *
+ * (c) Harminder Virk <virk@adonisjs.com>
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+*/
+
+const Image = require('../../src/Image')
+const Encoders = require('../../src/Image/Encoders')
+const Storage = require('../../src/Storage')
+const File = require('../../src/File')
+const Ioc = require('adonis-fold').Ioc
+const Jimp = require('jimp')
+const chai = require('chai')
+const expect = chai.expect
+const path = require('path')
+const os = require('os')
+const fs = require('fs')
+
+require('co-mocha')
+
+const uploadsPath = path.join(os.tmpdir(), 'adonis-image-uploads')
+
+const makeConfig = function (values) {
+  return {
+    get: function (key, defaultValue) {
+      return values[key] || defaultValue
+    }
+  }
+}
+
+const presets = {
+  avatar: {
+    width: 200,
+    variants: {
+      thumb: {width: 50, height: 50, fit: 'cover', format: 'jpeg', quality: 80}
+    }
+  }
+}
+
+describe('Image', function () {
+  before(function * () {
+    const image = yield Jimp.create(400, 200, 0xff0000ff)
+    this.png = yield image.getBufferAsync(Jimp.MIME_PNG)
+  })
+
+  beforeEach(function () {
+    this.image = new Image(makeConfig({'image.presets': presets}))
+    Ioc.bind('Adonis/Src/Image', () => this.image)
+    this.tmpPath = path.join(os.tmpdir(), 'adonis-image-upload.png')
+    fs.writeFileSync(this.tmpPath, this.png)
+  })
+
+  it('should throw an error when preset is not defined', function () {
+    const fn = () => this.image.preset('cover')
+    expect(fn).to.throw('RuntimeException: E_INVALID_IMAGE_PRESET: cover preset is not defined inside config/image.js file')
+  })
+
+  it('should throw an error when encoder is not defined', function () {
+    const fn = function () {
+      return new Image(makeConfig({'image.encoder': 'gm'}))
+    }
+    expect(fn).to.throw('RuntimeException: E_INVALID_IMAGE_ENCODER: Unable to locate gm image encoder')
+  })
+
+  it('should be able to extend image with a new encoder', function () {
+    const sharp = {}
+    Image.extend('sharp', sharp)
+    const image = new Image(makeConfig({'image.encoder': 'sharp'}))
+    expect(image.encoder).to.equal(sharp)
+  })
+
+  it('should resize images without enlarging them', function * () {
+    const JimpEncoder = Encoders.jimp
+    const encoder = new JimpEncoder()
+    const cover = yield encoder.encode(this.png, {width: 100, height: 100, fit: 'cover', format: 'jpeg'})
+    expect([cover.width, cover.height, cover.mime, cover.extension]).deep.equal([100, 100, 'image/jpeg', 'jpg'])
+    const inside = yield encoder.encode(this.png, {width: 300, height: 300})
+    expect([inside.width, inside.height, inside.mime]).deep.equal([300, 150, 'image/png'])
+    const smaller = yield encoder.encode(this.png, {width: 800, height: 800})
+    expect([smaller.width, smaller.height]).deep.equal([400, 200])
+  })
+
+  it('should keep the original untouched when it is not resized and exif is kept', function * () {
+    const output = yield this.image.process(this.png, {stripExif: false, variants: {thumb: {width: 40}}})
+    expect(output.original).to.equal(null)
+    expect([output.variants.thumb.width, output.variants.thumb.height]).deep.equal([40, 20])
+  })
+
+  context('File', function () {
+    it('should write original and variants of a transformed file on move', function * () {
+      const file = new File({name: 'logo.png', path: this.tmpPath, type: 'image/png', size: this.png.length}, {})
+      yield file.transform('avatar').move(uploadsPath)
+      expect(file.moved()).to.equal(true)
+      expect(file.uploadPath()).to.equal(path.join(uploadsPath, 'logo.png'))
+      expect(file.variants().thumb).deep.equal({
+        name: 'logo-thumb.jpg',
+        path: path.join(uploadsPath, 'logo-thumb.jpg'),
+        width: 50,
+        height: 50,
+        mime: 'image/jpeg',
+        size: fs.statSync(path.join(uploadsPath, 'logo-thumb.jpg')).size
+      })
+      const original = yield Jimp.read(file.uploadPath())
+      expect([original.bitmap.width, original.bitmap.height]).deep.equal([200, 100])
+      expect(fs.existsSync(this.tmpPath)).to.equal(false)
+    })
+
+    it('should write original and variants of a transformed file to the disk', function * () {
+      const storage = new Storage(makeConfig({filesystem: {default: 'memory', disks: {memory: {driver: 'memory', baseUrl: '/uploads'}}}}))
+      Ioc.bind('Adonis/Src/Storage', () => storage)
+      const file = new File({name: 'logo.png', path: this.tmpPath, type: 'image/png', size: this.png.length}, {})
+      const storedFile = yield file.transform({format: 'jpeg', variants: {small: {width: 100}}}).moveToDisk('avatars', '1.png')
+      expect(storedFile.url()).to.equal('/uploads/avatars/1.jpg')
+      expect(file.variants().small.path).to.equal('avatars/1-small.png')
+      expect(yield storage.disk().exists('avatars/1-small.png')).to.equal(true)
+    })
+
+    it('should not move files which are not supported images', function * () {
+      fs.writeFileSync(this.tmpPath, fs.readFileSync(path.join(__dirname, './uploads/npm-logo.svg')))
+      const file = new File({name: 'logo.svg', path: this.tmpPath, type: 'image/svg+xml', size: 235}, {})
+      yield file.transform('avatar').move(uploadsPath)
+      expect(file.moved()).to.equal(false)
+      expect(file.errors()).to.equal('E_UNSUPPORTED_IMAGE_TYPE: Uploaded file type image/svg+xml cannot be transformed')
+      expect(file.variants()).deep.equal({})
+    })
+  })
+})
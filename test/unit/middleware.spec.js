@@ -86,6 +86,11 @@ describe('Middleware', function () {
     expect(formatted).to.throw('RuntimeException: E_MISSING_NAMED_MIDDLEWARE: auth is not registered as a named middleware')
   })
 
+  it('should format built-in signed middleware without registering it', function () {
+    const formatted = Middleware.formatNamedMiddleware(['signed'])
+    expect(formatted).to.deep.equal({'Adonis/Middleware/Signed': []})
+  })
+
   it('should resolve named middleware using resolve method', function () {
     Middleware.register('auth', 'App/Http/Middleware/AuthMiddleware')
     const formatted = Middleware.formatNamedMiddleware(['auth:basic'])
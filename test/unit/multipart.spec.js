@@ -0,0 +1,212 @@
+'use strict'
+
+/**
+ * adonis-framework
+ *
+ * (c) Harminder Virk <virk@adonisjs.com>
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+*/
+
+const BodyParser = require('../../src/BodyParser')
+const RequestBuilder = require('../../src/Request')
+const StreamFile = require('../../src/Multipart/StreamFile')
+const chai = require('chai')
+const expect = chai.expect
+const http = require('http')
+const path = require('path')
+const os = require('os')
+const fs = require('fs')
+const stream = require('stream')
+const supertest = require('supertest')
+const co = require('co')
+
+require('co-mocha')
+
+const uploadsPath = path.join(os.tmpdir(), 'adonis-stream-uploads')
+const logoPath = path.join(__dirname, '/uploads/npm-logo.svg')
+
+const makeConfig = function (files) {
+  return {
+    get: function (key) {
+      return key === 'bodyParser' ? {files: Object.assign({stream: true}, files)} : null
+    }
+  }
+}
+
+const Config = makeConfig()
+
+/**
+ * returns an http server streaming files to the
+ * handler and responding with the returned
+ * value.
+ */
+const makeServer = function (registerHandlers, files) {
+  const bodyParser = new BodyParser(makeConfig(files))
+  return http.createServer(function (req, res) {
+    const Request = new RequestBuilder(Config)
+    const request = new Request(req, res)
+    let output = {}
+    co(function * () {
+      yield bodyParser.parse(request)
+      registerHandlers(request.multipart, output)
+      yield request.multipart.process()
+    }).then(function () {
+      res.writeHead(200, {'Content-type': 'application/json'})
+      res.end(JSON.stringify({all: request.all(), files: request.files(), output}), 'utf8')
+    }).catch(function (error) {
+      res.writeHead(error.status || 500, {'Content-type': 'application/json'})
+      res.end(JSON.stringify({error: error.message}), 'utf8')
+    })
+  })
+}
+
+describe('Multipart', function () {
+  afterEach(function () {
+    const uploadedPath = path.join(uploadsPath, 'logo.svg')
+    if (fs.existsSync(uploadedPath)) {
+      fs.unlinkSync(uploadedPath)
+    }
+  })
+
+  it('should stream file to the destination without writing it to the tmp path', function * () {
+    const server = makeServer(function (multipart, output) {
+      multipart.file('logo', function * (file) {
+        yield file.move(uploadsPath, 'logo.svg')
+        output.tmpPath = file.tmpPath()
+        output.size = file.clientSize()
+        output.moved = file.moved()
+      })
+    })
+    const res = yield supertest(server).post('/').field('name', 'npm').attach('logo', logoPath).expect(200)
+    expect(res.body.all).deep.equal({name: 'npm'})
+    expect(res.body.files).deep.equal([])
+    expect(res.body.output).deep.equal({tmpPath: null, size: 235, moved: true})
+    expect(fs.readFileSync(path.join(uploadsPath, 'logo.svg'), 'utf8')).to.equal(fs.readFileSync(logoPath, 'utf8'))
+  })
+
+  it('should pipe file to a writable stream', function * () {
+    const server = makeServer(function (multipart, output) {
+      multipart.file('logo', function (file) {
+        let length = 0
+        const destination = new stream.Writable({
+          write: function (chunk, encoding, callback) {
+            length += chunk.length
+            callback()
+          }
+        })
+        return file.pipe(destination).then(function () {
+          output.length = length
+        })
+      })
+    })
+    const res = yield supertest(server).post('/').attach('logo', logoPath).expect(200)
+    expect(res.body.output.length).to.equal(235)
+  })
+
+  it('should abort the stream as soon as file exceeds the max size', function * () {
+    const server = makeServer(function (multipart, output) {
+      multipart.file('logo', {maxSize: 100}, function * (file) {
+        yield file.move(uploadsPath, 'logo.svg')
+        output.error = file.errors()
+        output.exists = fs.existsSync(path.join(uploadsPath, 'logo.svg'))
+      })
+    })
+    const res = yield supertest(server).post('/').attach('logo', logoPath).expect(200)
+    expect(res.body.output.error).to.match(/exceeds the limit of 100B$/)
+    expect(res.body.output.exists).to.equal(false)
+  })
+
+  it('should not stream file with an invalid extension', function * () {
+    const server = makeServer(function (multipart, output) {
+      multipart.file('logo', {allowedExtensions: ['png']}, function * (file) {
+        yield file.move(uploadsPath, 'logo.svg')
+        output.error = file.errors()
+        output.exists = fs.existsSync(path.join(uploadsPath, 'logo.svg'))
+      })
+    })
+    const res = yield supertest(server).post('/').attach('logo', logoPath).expect(200)
+    expect(res.body.output).deep.equal({error: 'Uploaded file extension svg is not valid', exists: false})
+  })
+
+  it('should abort the stream when detected type is not allowed', function * () {
+    const server = makeServer(function (multipart, output) {
+      multipart.file('logo', {allowedMimes: ['image/png']}, function * (file) {
+        yield file.move(uploadsPath, 'logo.svg')
+        output.error = file.errors()
+        output.exists = fs.existsSync(path.join(uploadsPath, 'logo.svg'))
+      })
+    })
+    const res = yield supertest(server).post('/').attach('logo', logoPath).expect(200)
+    expect(res.body.output).deep.equal({error: 'Uploaded file type image/svg+xml is not valid', exists: false})
+  })
+
+  it('should validate streamed files using the multipart options', function * () {
+    const server = makeServer(function (multipart, output) {
+      multipart.file('logo', function * (file) {
+        yield file.move(uploadsPath, 'logo.svg')
+        output.error = file.errors()
+      })
+    }, {allowedTypes: ['video']})
+    const res = yield supertest(server).post('/').attach('logo', logoPath).expect(200)
+    expect(res.body.output).deep.equal({error: 'Uploaded file type image/svg+xml is not valid'})
+  })
+
+  it('should pass the handler error to the caller without leaving the request hanging', function * () {
+    const server = makeServer(function (multipart) {
+      multipart.file('logo', function * (file) {
+        throw new Error('Unable to save logo')
+      })
+    })
+    const res = yield supertest(server).post('/').field('name', 'npm').attach('logo', logoPath).expect(500)
+    expect(res.body.error).to.equal('Unable to save logo')
+  })
+
+  it('should drain files without a handler', function * () {
+    const server = makeServer(function (multipart, output) {
+      multipart.file('avatar', function (file) {
+        output.called = true
+      })
+    })
+    const res = yield supertest(server).post('/').field('name', 'npm').attach('logo', logoPath).expect(200)
+    expect(res.body.all).deep.equal({name: 'npm'})
+    expect(res.body.output).deep.equal({})
+  })
+
+  it('should not move file outside the destination using the client name', function * () {
+    const server = makeServer(function (multipart, output) {
+      multipart.file('logo', function * (file) {
+        yield file.move(uploadsPath)
+        output.uploadPath = file.uploadPath()
+      })
+    })
+    const res = yield supertest(server).post('/').attach('logo', logoPath, '../logo.svg').expect(200)
+    expect(res.body.output.uploadPath).to.equal(path.join(uploadsPath, 'logo.svg'))
+    expect(fs.existsSync(path.join(uploadsPath, 'logo.svg'))).to.equal(true)
+  })
+
+  it('should detect file type from leading bytes split across chunks', function * () {
+    const file = new StreamFile({filename: 'logo.png', mime: 'image/png'}, {allowedMimes: ['image/png']})
+    const png = Buffer.concat([Buffer.from('89504e470d0a1a0a', 'hex'), Buffer.alloc(300)])
+    const contents = new Promise(function (resolve) {
+      const chunks = []
+      file.stream.on('data', (chunk) => chunks.push(chunk))
+      file.stream.on('end', () => resolve(Buffer.concat(chunks)))
+    })
+    file._write(png.slice(0, 2))
+    file._write(png.slice(2, 100))
+    file._write(png.slice(100))
+    file._end()
+    expect(file.errors()).to.equal(null)
+    expect((yield contents).equals(png)).to.equal(true)
+  })
+
+  it('should validate files shorter than the leading bytes once they end', function * () {
+    const file = new StreamFile({filename: 'notes.txt', mime: 'text/plain'}, {allowedMimes: ['image/png']})
+    file._write(Buffer.from('hello'))
+    expect(file.errors()).to.equal(null)
+    file._end()
+    expect(file.errors()).to.equal('Uploaded file type text/plain is not valid')
+  })
+})
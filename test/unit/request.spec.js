@@ -1010,6 +1010,89 @@ describe('Request', function () {
     expect(res.body.hasBody).to.equal(true)
   })
 
+  it('should return error bag when input passes validation', function * () {
+    const server = http.createServer(function (req, res) {
+      const Request = new RequestBuilder(Config)
+      const request = new Request(req, res)
+      co(function * () {
+        return yield request.validate({'profile.name': 'required|max:10', 'tags.*': 'in:news,sports'})
+      }).then(function (errors) {
+        res.writeHead(200, {'Content-type': 'application/json'})
+        res.end(JSON.stringify({fails: errors.fails()}), 'utf8')
+      })
+    })
+
+    const res = yield supertest(server).get('/?profile[name]=doe&tags[]=news').expect(200)
+    expect(res.body.fails).to.equal(false)
+  })
+
+  it('should flash errors and old input to the session when html request fails validation', function * () {
+    const server = http.createServer(function (req, res) {
+      const Request = new RequestBuilder(Config)
+      const request = new Request(req, res)
+      let flashed = {}
+      request.session = {
+        put: function * (key, values) {
+          flashed[key] = values
+        }
+      }
+      co(function * () {
+        yield request.validate({email: 'required|email', password: 'required|min:6'}, {'email.email': 'Enter a valid email'})
+      }).catch(function (error) {
+        res.writeHead(200, {'Content-type': 'application/json'})
+        res.end(JSON.stringify({flashed, status: error.status, redirectTo: error.redirectTo}), 'utf8')
+      })
+    })
+
+    const res = yield supertest(server).get('/?email=foo&errors=none&password=secret&password_confirmation=secret').set('Accept', 'text/html').expect(200)
+    expect(res.body.status).to.equal(422)
+    expect(res.body.redirectTo).to.equal('back')
+    expect(res.body.flashed.flash_messages).deep.equal({email: 'foo', errors: 'none'})
+    expect(res.body.flashed.flash_errors).deep.equal([
+      {field: 'email', validation: 'email', message: 'Enter a valid email'}
+    ])
+  })
+
+  it('should pull errors flashed by failed validation from the session', function * () {
+    const server = http.createServer(function (req, res) {
+      const Request = new RequestBuilder(Config)
+      const request = new Request(req, res)
+      request.session = {
+        pull: function * (key, defaultValue) {
+          return key === 'flash_errors' ? [{field: 'email', validation: 'email', message: 'Enter a valid email'}] : defaultValue
+        }
+      }
+      co(function * () {
+        return yield request.errors()
+      }).then(function (errors) {
+        res.writeHead(200, {'Content-type': 'application/json'})
+        res.end(JSON.stringify({errors}), 'utf8')
+      })
+    })
+
+    const res = yield supertest(server).get('/').expect(200)
+    expect(res.body.errors).deep.equal([{field: 'email', validation: 'email', message: 'Enter a valid email'}])
+  })
+
+  it('should return api version from url prefix, version header and accept media type', function * () {
+    const server = http.createServer(function (req, res) {
+      const Request = new RequestBuilder(Config)
+      const request = new Request(req, res)
+      const version = request.version()
+      res.writeHead(200, {'Content-type': 'application/json'})
+      res.end(JSON.stringify({version}), 'utf8')
+    })
+
+    const prefixed = yield supertest(server).get('/v3/users').expect(200)
+    const header = yield supertest(server).get('/users').set('X-Api-Version', 'v2').expect(200)
+    const accept = yield supertest(server).get('/users').set('Accept', 'application/vnd.app.v4+json').expect(200)
+    const none = yield supertest(server).get('/users').expect(200)
+    expect(prefixed.body.version).to.equal(3)
+    expect(header.body.version).to.equal(2)
+    expect(accept.body.version).to.equal(4)
+    expect(none.body.version).to.equal(null)
+  })
+
   it('should return request format using format method', function * () {
     const server = http.createServer(function (req, res) {
       const Request = new RequestBuilder(Config)
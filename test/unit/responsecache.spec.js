@@ -0,0 +1,224 @@
+'use strict'
+
+/**
+ * adonis-framework
+ *
+ * (c) Harminder Virk <virk@adonisjs.com>
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+*/
+
+const chai = require('chai')
+const expect = chai.expect
+const _ = require('lodash')
+const co = require('co')
+const os = require('os')
+const path = require('path')
+const http = require('http')
+const supertest = require('supertest')
+const RequestBuilder = require('../../src/Request')
+const ResponseBuilder = require('../../src/Response')
+const Route = require('../../src/Route')
+const ResponseCache = require('../../src/ResponseCache')
+const CacheMiddleware = require('../../src/Middleware/Cache')
+const Stores = require('../../src/ResponseCache/Stores')
+const MemoryStore = Stores.memory
+const FileStore = Stores.file
+require('co-mocha')
+
+class Config {
+  constructor (cache) {
+    this.config = {
+      app: { http: { setPoweredBy: false } },
+      cache: cache || {}
+    }
+  }
+  get (key, defaultValue) {
+    const value = _.get(this.config, key)
+    return value === undefined ? defaultValue : value
+  }
+}
+
+const Helpers = {
+  storagePath: function (toFile) {
+    return path.join(os.tmpdir(), 'adonis-response-cache', toFile)
+  }
+}
+
+describe('ResponseCache', function () {
+  before(function () {
+    const config = new Config()
+    this.Request = new RequestBuilder(config)
+    this.Response = new ResponseBuilder({}, Route, config)
+    this.makeServer = (middleware, handler, varyBy) => {
+      return http.createServer((req, res) => {
+        const request = new this.Request(req, res)
+        const response = new this.Response(request, res)
+        co(function * () {
+          yield middleware.handle.apply(middleware, [request, response, handler(request, response), '60'].concat(varyBy || []))
+        }).catch((e) => {
+          res.writeHead(500)
+          res.end(e.message)
+        })
+      })
+    }
+  })
+
+  beforeEach(function () {
+    ResponseCache.stores = {}
+  })
+
+  it('should throw an error when store does not exists', function () {
+    const fn = function () {
+      return new ResponseCache(new Config({store: 'mongo'}))
+    }
+    expect(fn).to.throw('RuntimeException: E_INVALID_CACHE_STORE: Unable to locate mongo cache store')
+  })
+
+  it('should make cache key using host, url and vary by headers', function () {
+    const cache = new ResponseCache(new Config())
+    const makeRequest = function (hostname) {
+      return {
+        hostname: function () {
+          return hostname
+        },
+        originalUrl: function () {
+          return '/posts?page=1'
+        },
+        header: function (key) {
+          return key === 'Accept-Language' ? 'en' : null
+        }
+      }
+    }
+    const request = makeRequest('tenant-a.app.com')
+    expect(cache.keyFor(request)).to.equal('response:tenant-a.app.com/posts?page=1')
+    expect(cache.keyFor(request, ['Accept-Language'])).to.equal('response:tenant-a.app.com/posts?page=1|accept-language=en')
+    expect(cache.keyFor(makeRequest('tenant-b.app.com'))).not.to.equal(cache.keyFor(request))
+  })
+
+  context('Memory Store', function () {
+    it('should return null when value has been expired', function * () {
+      const store = new MemoryStore()
+      yield store.put('foo', {body: 'bar'}, 60)
+      expect(yield store.get('foo')).deep.equal({body: 'bar'})
+      store.entries.foo.expiresAt = Date.now() - 1
+      expect(yield store.get('foo')).to.equal(null)
+    })
+
+    it('should prune expired values when putting a new value', function * () {
+      const store = new MemoryStore()
+      yield store.put('/posts?page=1', {body: 'bar'}, 60)
+      store.entries['/posts?page=1'].expiresAt = Date.now() - 1
+      store.pruneAt = 0
+      yield store.put('/posts?page=2', {body: 'baz'}, 60)
+      expect(Object.keys(store.entries)).deep.equal(['/posts?page=2'])
+    })
+
+    it('should remove oldest value once the store is full', function * () {
+      const store = new MemoryStore()
+      for (let i = 0; i <= 1000; i++) {
+        yield store.put(`/posts?page=${i}`, {body: 'bar'}, 60)
+      }
+      expect(Object.keys(store.entries).length).to.equal(1000)
+      expect(yield store.get('/posts?page=0')).to.equal(null)
+      expect(yield store.get('/posts?page=1000')).deep.equal({body: 'bar'})
+    })
+  })
+
+  context('File Store', function () {
+    it('should write value to a file inside storage directory', function * () {
+      const store = new FileStore(Helpers, new Config())
+      yield store.put('foo', {body: 'bar'}, 60)
+      expect(yield store.get('foo')).deep.equal({body: 'bar'})
+      yield store.forget('foo')
+      expect(yield store.get('foo')).to.equal(null)
+    })
+
+    it('should return null when value has been expired', function * () {
+      const store = new FileStore(Helpers, new Config())
+      yield store.put('foo', {body: 'bar'}, -1)
+      expect(yield store.get('foo')).to.equal(null)
+    })
+  })
+
+  context('Middleware', function () {
+    it('should set etag on response and serve next request from cache', function * () {
+      let calls = 0
+      const middleware = new CacheMiddleware(new ResponseCache(new Config()))
+      const server = this.makeServer(middleware, function (request, response) {
+        return (function * () {
+          calls++
+          response.send('Hello world')
+        })()
+      })
+      const first = yield supertest(server).get('/').expect(200)
+      const second = yield supertest(server).get('/').expect(200)
+      expect(first.headers.etag).to.match(/^"[a-f0-9]{40}"$/)
+      expect(first.headers['last-modified']).to.be.a('string')
+      expect(second.text).to.equal('Hello world')
+      expect(second.headers.etag).to.equal(first.headers.etag)
+      expect(calls).to.equal(1)
+    })
+
+    it('should respond with 304 when request is fresh', function * () {
+      const middleware = new CacheMiddleware(new ResponseCache(new Config()))
+      const server = this.makeServer(middleware, function (request, response) {
+        return (function * () {
+          response.send('Hello world')
+        })()
+      })
+      const first = yield supertest(server).get('/').expect(200)
+      yield supertest(server).get('/').set('If-None-Match', first.headers.etag).expect(304)
+    })
+
+    it('should cache variants for vary by headers', function * () {
+      const middleware = new CacheMiddleware(new ResponseCache(new Config()))
+      const server = this.makeServer(middleware, function (request, response) {
+        return (function * () {
+          response.send(request.header('Accept-Language'))
+        })()
+      }, ['Accept-Language'])
+      const en = yield supertest(server).get('/').set('Accept-Language', 'en').expect(200)
+      const fr = yield supertest(server).get('/').set('Accept-Language', 'fr').expect(200)
+      expect(en.text).to.equal('en')
+      expect(fr.text).to.equal('fr')
+      expect(fr.headers.vary).to.equal('Accept-Language')
+    })
+
+    it('should not cache responses setting cookies or marked as private', function * () {
+      let calls = 0
+      const middleware = new CacheMiddleware(new ResponseCache(new Config()))
+      const server = this.makeServer(middleware, function (request, response) {
+        return (function * () {
+          calls++
+          if (request.input('private')) {
+            response.header('Cache-Control', 'private, max-age=60')
+          } else {
+            response.header('Set-Cookie', 'cart=1')
+          }
+          response.send('Hello world')
+        })()
+      })
+      yield supertest(server).get('/').expect(200)
+      yield supertest(server).get('/').expect(200)
+      yield supertest(server).get('/?private=1').expect(200)
+      yield supertest(server).get('/?private=1').expect(200)
+      expect(calls).to.equal(4)
+    })
+
+    it('should not cache unsuccessful responses', function * () {
+      let calls = 0
+      const middleware = new CacheMiddleware(new ResponseCache(new Config()))
+      const server = this.makeServer(middleware, function (request, response) {
+        return (function * () {
+          calls++
+          response.status(404).send('Not found')
+        })()
+      })
+      yield supertest(server).get('/').expect(404)
+      yield supertest(server).get('/').expect(404)
+      expect(calls).to.equal(2)
+    })
+  })
+})
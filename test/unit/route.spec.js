@@ -7,15 +7,19 @@
 */
 
 const Route = require('../../src/Route')
+const RouteCache = require('../../src/Route/cache')
 const chai = require('chai')
 const _ = require('lodash')
 const expect = chai.expect
 const stderr = require('test-console').stderr
+const path = require('path')
+const os = require('os')
 require('co-mocha')
 
 describe('Route', function () {
   beforeEach(function () {
     Route.new()
+    Route.strict(false)
   })
 
   context('Register', function () {
@@ -207,6 +211,36 @@ describe('Route', function () {
       expect(routes[0].middlewares).deep.equal(['auth', 'web'])
     })
 
+    it('should be able to define cors options for a given route', function () {
+      Route.get('/', 'SomeController.method').cors({origin: true})
+      const routes = Route.routes()
+      expect(routes[0].cors).deep.equal({origin: true})
+    })
+
+    it('should keep route cors options over group cors options', function () {
+      Route.group('api', function () {
+        Route.get('/users', 'UsersController.index').cors({credentials: true})
+        Route.get('/posts', 'PostsController.index').cors(false)
+        Route.get('/tags', 'TagsController.index')
+      }).cors({origin: 'http://example.com'})
+      const routes = Route.routes()
+      expect(routes[0].cors).deep.equal({origin: 'http://example.com', credentials: true})
+      expect(routes[1].cors).to.equal(false)
+      expect(routes[2].cors).deep.equal({origin: 'http://example.com'})
+    })
+
+    it('should keep route body parser options over group body parser options', function () {
+      Route.group('api', function () {
+        Route.post('/users', 'UsersController.store').bodyParser({files: {maxSize: '2mb'}})
+        Route.post('/webhooks', 'WebhooksController.store').bodyParser(false)
+        Route.post('/tags', 'TagsController.store')
+      }).bodyParser({json: {limit: '5mb'}})
+      const routes = Route.routes()
+      expect(routes[0].bodyParser).deep.equal({json: {limit: '5mb'}, files: {maxSize: '2mb'}})
+      expect(routes[1].bodyParser).to.equal(false)
+      expect(routes[2].bodyParser).deep.equal({json: {limit: '5mb'}})
+    })
+
     it('should be able to group routes', function () {
       Route.group('admin', function () {
         Route.get('/', 'SomeController.method')
@@ -277,6 +311,79 @@ describe('Route', function () {
       expect(routes[0].route).to.equal('/v1')
     })
 
+    it('should prefix routes inside nested groups with outer and inner prefix', function () {
+      Route.group('v1', function () {
+        Route.get('/status', 'StatusController.index')
+        Route.group('admin', function () {
+          Route.get('/users', 'UsersController.index')
+        }).prefix('/admin')
+        Route.get('/health', 'StatusController.health')
+      }).prefix('/v1')
+      const routes = Route.routes()
+      expect(routes[0].route).to.equal('/v1/status')
+      expect(routes[1].route).to.equal('/v1/admin/users')
+      expect(routes[2].route).to.equal('/v1/health')
+      expect(routes[0].group).to.equal('v1')
+      expect(routes[1].group).to.equal('admin')
+      expect(routes[2].group).to.equal('v1')
+    })
+
+    it('should attach outer group middleware to the routes of inner groups', function () {
+      Route.group('v1', function () {
+        Route.group('admin', function () {
+          Route.get('/users', 'UsersController.index')
+        }).middleware('acl')
+      }).middleware('auth')
+      const routes = Route.routes()
+      expect(routes[0].middlewares).deep.equal(['auth', 'acl'])
+    })
+
+    it('should attach nested group middleware after the route middleware', function () {
+      Route.group('v1', function () {
+        Route.group('admin', function () {
+          Route.get('/users', 'UsersController.index').middleware('cors')
+        }).middleware('acl')
+      }).middleware('auth', 'session')
+      const routes = Route.routes()
+      expect(routes[0].middlewares).deep.equal(['cors', 'auth', 'session', 'acl'])
+    })
+
+    it('should merge formats of an outer group with the formats of inner group', function () {
+      Route.group('v1', function () {
+        Route.group('admin', function () {
+          Route.get('/users', 'UsersController.index')
+        }).formats(['json'])
+      }).formats(['xml'])
+      const routes = Route.routes()
+      expect(routes[0].route).to.equal('/users:format(.json|.xml)?')
+      expect(Route.resolve('/users.xml', 'GET').params.format).to.equal('.xml')
+    })
+
+    it('should keep domain of inner group over the outer group domain', function () {
+      Route.group('site', function () {
+        Route.get('/', 'HomeController.index')
+        Route.group('blog', function () {
+          Route.get('/', 'BlogController.index')
+        }).domain('blog.example.com')
+      }).domain('example.com')
+      const routes = Route.routes()
+      expect(routes[0].domain).to.equal('example.com')
+      expect(routes[1].domain).to.equal('blog.example.com')
+    })
+
+    it('should prefix names of the routes inside nested groups', function () {
+      Route.group('api', function () {
+        Route.group('admin', function () {
+          Route.get('/users', 'UsersController.index').as('users')
+          Route.get('/posts', 'PostsController.index')
+        }).as('admin.')
+      }).as('api.')
+      const routes = Route.routes()
+      expect(routes[0].name).to.equal('api.admin.users')
+      expect(routes[1].name).to.equal('/posts')
+      expect(Route.url('api.admin.users')).to.equal('/users')
+    })
+
     it('should prefix all resourceful routes under a group', function () {
       Route.group('v1', function () {
         Route.resource('admin', 'SomeController')
@@ -494,6 +601,142 @@ describe('Route', function () {
       expect(verbs['/user/:user_id/posts-POST']).to.equal(undefined)
     })
 
+    it('should drop parent segments from member routes of a shallow resource', function () {
+      Route.resource('post.comments', 'CommentsController').shallow()
+      const routes = Route.routes()
+      const verbs = _.fromPairs(_.map(routes, function (route) {
+        return [route.route + '-' + route.verb.join('/'), route.name]
+      }))
+      expect(routes.length).to.equal(7)
+      expect(verbs['/post/:post_id/comments-GET/HEAD']).to.equal('post.comments.index')
+      expect(verbs['/post/:post_id/comments/create-GET/HEAD']).to.equal('post.comments.create')
+      expect(verbs['/post/:post_id/comments-POST']).to.equal('post.comments.store')
+      expect(verbs['/comments/:id-GET/HEAD']).to.equal('post.comments.show')
+      expect(verbs['/comments/:id/edit-GET/HEAD']).to.equal('post.comments.edit')
+      expect(verbs['/comments/:id-PUT/PATCH']).to.equal('post.comments.update')
+      expect(verbs['/comments/:id-DELETE']).to.equal('post.comments.destroy')
+    })
+
+    it('should keep only, as, middleware and addMember working with shallow resources', function () {
+      Route
+        .resource('post.comments', 'CommentsController')
+        .shallow()
+        .only('index', 'show')
+        .as({show: 'comment'})
+        .middleware('auth')
+        .addMember('approve', 'PUT')
+      const routes = Route.routes()
+      expect(_.map(routes, 'route')).deep.equal(['/post/:post_id/comments', '/comments/:id', '/comments/:id/approve'])
+      expect(routes[1].name).to.equal('comment')
+      expect(routes[1].middlewares).deep.equal(['auth'])
+      expect(routes[1].bindingKeys).deep.equal({id: 'comments'})
+    })
+
+    it('should register routes for a singleton resource', function () {
+      Route.singleton('profile', 'ProfileController')
+      const routes = Route.routes()
+      const verbs = _.fromPairs(_.map(routes, function (route) {
+        return [route.route + '-' + route.verb.join('/'), route.handler]
+      }))
+      expect(routes.length).to.equal(6)
+      expect(verbs['/profile/create-GET/HEAD']).to.equal('ProfileController.create')
+      expect(verbs['/profile-POST']).to.equal('ProfileController.store')
+      expect(verbs['/profile-GET/HEAD']).to.equal('ProfileController.show')
+      expect(verbs['/profile/edit-GET/HEAD']).to.equal('ProfileController.edit')
+      expect(verbs['/profile-PUT/PATCH']).to.equal('ProfileController.update')
+      expect(verbs['/profile-DELETE']).to.equal('ProfileController.destroy')
+    })
+
+    it('should register nested singleton resource and filter actions using except', function () {
+      Route.singleton('user.profile', 'ProfileController').except('create', 'store', 'destroy').middleware('auth')
+      const routes = Route.routes()
+      expect(_.map(routes, 'route')).deep.equal(['/user/:user_id/profile', '/user/:user_id/profile/edit', '/user/:user_id/profile'])
+      expect(_.map(routes, 'name')).deep.equal(['user.profile.show', 'user.profile.edit', 'user.profile.update'])
+      expect(routes[0].middlewares).deep.equal(['auth'])
+    })
+
+    it('should add member routes to singleton resources without an id', function () {
+      Route.singleton('profile', 'ProfileController').addMember('avatar', 'POST')
+      expect(_.last(Route.routes()).route).to.equal('/profile/avatar')
+    })
+
+    it('should register api resource without create and edit routes', function () {
+      Route.apiResource('users', 'UsersController')
+      const routes = Route.routes()
+      expect(_.map(routes, 'name')).deep.equal(['users.index', 'users.store', 'users.show', 'users.update', 'users.destroy'])
+    })
+
+    it('should add member and collection routes to api resources', function () {
+      Route
+        .apiResource('users', 'UsersController')
+        .addMember('avatar', 'POST')
+        .addCollection('search')
+      const routes = Route.routes()
+      expect(routes.length).to.equal(7)
+      expect(routes[5].route).to.equal('/users/:id/avatar')
+      expect(routes[6].route).to.equal('/users/search')
+    })
+
+    it('should use verbs and paths defined via resourceActions', function () {
+      Route.resourceActions({
+        update: { verbs: ['PATCH'] },
+        bulkDestroy: { verbs: 'post', path: 'delete' }
+      })
+      Route.apiResource('users', 'UsersController')
+      const routes = Route.routes()
+      const verbs = _.fromPairs(_.map(routes, function (route) {
+        return [route.route + '-' + route.verb.join('/'), route.handler]
+      }))
+      expect(routes.length).to.equal(6)
+      expect(verbs['/users/:id-PATCH']).to.equal('UsersController.update')
+      expect(verbs['/users/delete-POST']).to.equal('UsersController.bulkDestroy')
+      expect(_.map(routes, 'name').indexOf('users.bulkDestroy')).to.be.below(_.map(routes, 'name').indexOf('users.show'))
+    })
+
+    it('should remove actions set to false via resourceActions', function () {
+      Route.resourceActions({ destroy: false })
+      Route.resource('users', 'UsersController')
+      expect(_.map(Route.routes(), 'name')).not.to.include('users.destroy')
+    })
+
+    it('should throw an error when resource action does not define verbs', function () {
+      Route.resourceActions({ archive: { verbs: [] } })
+      const fn = function () {
+        return Route.resource('users', 'UsersController')
+      }
+      expect(fn).to.throw('InvalidArgumentException: E_INVALID_PARAMETER: Resource action archive must define atleast one verb')
+    })
+
+    it('should reset resource actions when route store is cleared', function () {
+      Route.resourceActions({ update: { verbs: ['PATCH'] } })
+      Route.new()
+      Route.resource('users', 'UsersController')
+      expect(_.find(Route.routes(), {name: 'users.update'}).verb).deep.equal(['PUT', 'PATCH'])
+    })
+
+    it('should define version range for a route', function () {
+      Route.get('/users', 'UsersController.index').version(1)
+      Route.get('/posts', 'PostsController.index').version('1-3')
+      Route.get('/feed', 'FeedController.index').version('2+')
+      expect(_.map(Route.routes(), 'version')).deep.equal([{from: 1, to: 1}, {from: 1, to: 3}, {from: 2, to: null}])
+      expect(_.map(Route.list(), 'version')).deep.equal(['1', '1-3', '2+'])
+    })
+
+    it('should throw an error when version range is not valid', function () {
+      const fn = function () {
+        return Route.get('/users', 'UsersController.index').version('3-1')
+      }
+      expect(fn).to.throw('InvalidArgumentException: E_INVALID_PARAMETER: 3-1 is not a valid route version')
+    })
+
+    it('should define version on group of routes without overriding route versions', function () {
+      Route.group('api', function () {
+        Route.get('/users', 'UsersController.index')
+        Route.get('/posts', 'PostsController.index').version(1)
+      }).version('2+')
+      expect(_.map(Route.routes(), 'version')).deep.equal([{from: 2, to: null}, {from: 1, to: 1}])
+    })
+
     it('should be able to define domain for a given route', function () {
       Route.group('admin', function () {
         Route.get('/', 'SomeController.method')
@@ -658,6 +901,47 @@ describe('Route', function () {
       expect(verbs['/tasks/:id/completed-GET/HEAD']).deep.equal('getCompletedTasks')
     })
 
+    it('should be able to make url for a named member route', function () {
+      Route
+        .resource('/tasks', 'SomeController')
+        .addMember('publish', 'POST', function (member) {
+          member.as('tasks.publishTask')
+        })
+      expect(Route.url('tasks.publishTask', {id: 1})).to.equal('/tasks/1/publish')
+    })
+
+    it('should name member and collection routes after the resource by default', function () {
+      Route
+        .resource('users', 'UsersController')
+        .addMember('publish', 'POST')
+        .addCollection('search')
+      expect(Route.url('users.publish', {id: 1})).to.equal('/users/1/publish')
+      expect(Route.url('users.search')).to.equal('/users/search')
+    })
+
+    it('should throw an error when member route is named after an existing route in strict mode', function () {
+      Route.strict()
+      const fn = function () {
+        Route
+          .resource('/tasks', 'SomeController')
+          .addMember('publish', 'POST', function (member) {
+            member.as('tasks.show')
+          })
+      }
+      expect(fn).to.throw('RuntimeException: E_DUPLICATE_ROUTE_NAME: Route name tasks.show has already been given to another route')
+    })
+
+    it('should throw an error when collection route is added twice in strict mode', function () {
+      Route.strict()
+      const fn = function () {
+        Route
+          .resource('/tasks', 'SomeController')
+          .addCollection('completed')
+          .addCollection('completed', 'POST')
+      }
+      expect(fn).to.throw('RuntimeException: E_DUPLICATE_ROUTE_NAME: Route name tasks.completed has already been given to another route')
+    })
+
     it('should return route defination using toJSON method', function () {
       let resourceMember = {}
       Route
@@ -832,12 +1116,378 @@ describe('Route', function () {
     })
   })
 
+  context('Listing', function () {
+    it('should return a serializable list of registered routes', function () {
+      Route.group('admin', function () {
+        Route.get('/users/:id', 'UsersController.show').as('users.show').middleware('auth').where('id', /\d+/)
+        Route.post('/users', function * () {})
+      }).prefix('/admin').domain('admin.example.com').formats(['json'])
+      const routes = Route.list()
+      expect(routes).deep.equal([
+        {
+          verb: ['GET', 'HEAD'],
+          url: 'admin.example.com/admin/users/:id:format(.json)?',
+          route: '/admin/users/:id:format(.json)?',
+          domain: 'admin.example.com',
+          name: 'users.show',
+          group: 'admin',
+          middlewares: ['auth'],
+          handler: 'UsersController.show',
+          constraints: {id: '\\d+'},
+          version: null
+        },
+        {
+          verb: ['POST'],
+          url: 'admin.example.com/admin/users:format(.json)?',
+          route: '/admin/users:format(.json)?',
+          domain: 'admin.example.com',
+          name: '/users',
+          group: 'admin',
+          middlewares: [],
+          handler: 'Closure',
+          constraints: {},
+          version: null
+        }
+      ])
+    })
+
+    it('should return list of routes when serialized to JSON', function () {
+      Route.get('/', 'HomeController.index')
+      const routes = JSON.parse(JSON.stringify(Route))
+      expect(routes).deep.equal(Route.list())
+    })
+  })
+
+  context('Cache', function () {
+    it('should throw an error when trying to cache routes with closures', function () {
+      Route.get('/', function * () {})
+      const fn = () => Route.toCache()
+      expect(fn).to.throw('RuntimeException: E_UNSERIALIZABLE_ROUTE: Cannot cache route /, since it makes use of closures')
+    })
+
+    it('should throw an error when trying to cache routes with custom cast methods', function () {
+      Route.get('/:id', 'HomeController.show').where('id', /\d+/, Number)
+      const fn = () => Route.toCache()
+      expect(fn).to.throw('RuntimeException: E_UNSERIALIZABLE_ROUTE: Cannot cache route /:id, since it makes use of closures')
+    })
+
+    it('should throw an error when trying to cache closure binders', function () {
+      Route.bind('user', function () {})
+      const fn = () => Route.toCache()
+      expect(fn).to.throw('RuntimeException: E_UNSERIALIZABLE_ROUTE: Cannot cache binder for :user, since it makes use of closures')
+    })
+
+    it('should resolve routes restored from the cache', function () {
+      Route.group('v1', function () {
+        Route.resource('users', 'UsersController').where('id', 'number')
+      }).prefix('/v1').domain(':account.example.com')
+      Route.bind('users', 'UserBinder.find')
+      const cache = JSON.parse(JSON.stringify(Route.toCache()))
+      Route.new()
+      Route.fromCache(cache)
+      const user = Route.resolve('/v1/users/1', 'GET', 'virk.example.com')
+      expect(user.name).to.equal('users.show')
+      expect(user.params).deep.equal({account: 'virk', id: 1})
+      expect(user.binders).deep.equal({id: 'UserBinder.find'})
+      expect(Route.resolve('/v1/users/foo', 'GET', 'virk.example.com')).deep.equal({})
+    })
+
+    it('should write routes to the cache file and load them back', function * () {
+      const Helpers = {
+        storagePath: function (toFile) {
+          return path.join(os.tmpdir(), 'adonis-route-cache', toFile)
+        }
+      }
+      const routeCache = new RouteCache(Route, Helpers)
+      Route.get('/users/:id', 'UsersController.show').as('users.show')
+      yield routeCache.dump()
+      Route.new()
+      const loaded = yield routeCache.load()
+      expect(loaded).to.equal(true)
+      expect(Route.resolve('/users/1', 'GET').handler).to.equal('UsersController.show')
+      yield routeCache.clear()
+      expect(yield routeCache.load()).to.equal(false)
+    })
+  })
+
   context('Resolve', function () {
     it('should return an empty object when unable to resolve route', function () {
       const home = Route.resolve('/', 'GET')
       expect(home).deep.equal({})
     })
 
+    it('should not throw when routes share a name outside strict mode', function () {
+      Route.get('/users', 'UsersController.index').as('users')
+      Route.get('/members', 'MembersController.index').as('users')
+      expect(Route.resolve('/users', 'GET').handler).to.equal('UsersController.index')
+    })
+
+    it('should throw an error when a name is given to another route in strict mode', function () {
+      Route.strict()
+      Route.get('/users', 'UsersController.index').as('users')
+      const fn = function () {
+        return Route.get('/members', 'MembersController.index').as('users')
+      }
+      expect(fn).to.throw('RuntimeException: E_DUPLICATE_ROUTE_NAME: Route name users has already been given to another route')
+    })
+
+    it('should throw an error when routes share the verb and pattern in strict mode', function () {
+      Route.strict()
+      Route.get('/users', 'UsersController.index')
+      Route.route('/users', ['POST', 'GET'], 'MembersController.index')
+      const fn = function () {
+        return Route.assertUnique()
+      }
+      expect(fn).to.throw('RuntimeException: E_DUPLICATE_ROUTE: Route GET /users has already been registered')
+    })
+
+    it('should not check duplicate routes when resolving a url', function () {
+      Route.strict()
+      Route.get('/users', 'UsersController.index')
+      Route.get('/users', 'MembersController.index')
+      expect(Route.resolve('/users', 'GET').handler).to.equal('UsersController.index')
+    })
+
+    it('should keep strict mode when routes are restored from cache', function () {
+      Route.strict()
+      Route.get('/users', 'UsersController.index')
+      Route.fromCache({routes: Route.toCache().routes.concat(Route.toCache().routes), binders: {}})
+      const fn = function () {
+        return Route.assertUnique()
+      }
+      expect(fn).to.throw('RuntimeException: E_DUPLICATE_ROUTE: Route GET /users has already been registered')
+    })
+
+    it('should check names of group routes after the group prefixes them in strict mode', function () {
+      Route.strict()
+      Route.group('v1', function () {
+        Route.get('/users', 'V1UsersController.index').as('users')
+      }).prefix('/v1').as('v1.')
+      Route.group('v2', function () {
+        Route.get('/users', 'V2UsersController.index').as('users')
+      }).prefix('/v2').as('v2.')
+      Route.assertUnique()
+      expect(Route.resolve('/v2/users', 'GET').handler).to.equal('V2UsersController.index')
+    })
+
+    it('should not consider routes with different versions or constraints as duplicates in strict mode', function () {
+      Route.strict()
+      Route.get('/users', 'V1UsersController.index').version(1)
+      Route.get('/users', 'UsersController.index').version('2+')
+      Route.get('/posts/:id', 'PostsController.show').where('id', 'number')
+      Route.get('/posts/:id', 'PostsController.showBySlug').where('id', 'slug')
+      Route.assertUnique()
+      expect(Route.resolve('/posts/hello-world', 'GET').handler).to.equal('PostsController.showBySlug')
+    })
+
+    it('should only compare names given via as in strict mode', function () {
+      Route.strict()
+      Route.get('/users', 'UsersController.index')
+      Route.post('/users', 'UsersController.store')
+      Route.get('/users', 'V1UsersController.index').version(1)
+      Route.fallback('HomeController.index')
+      Route.group('api', function () {}).prefix('/api').fallback('ApiController.notFound')
+      Route.assertUnique()
+      expect(Route.resolve('/users', 'POST').handler).to.equal('UsersController.store')
+    })
+
+    it('should report duplicate routes once the next route is registered in strict mode', function () {
+      Route.strict()
+      Route.get('/users', 'UsersController.index')
+      Route.get('/users', 'MembersController.index')
+      const fn = function () {
+        return Route.get('/posts', 'PostsController.index')
+      }
+      expect(fn).to.throw('RuntimeException: E_DUPLICATE_ROUTE: Route GET /users has already been registered')
+    })
+
+    it('should not report a route before its chained methods are applied in strict mode', function () {
+      Route.strict()
+      Route.get('/posts/:id', 'PostsController.showBySlug')
+      Route.get('/posts/:id', 'PostsController.show').where('id', 'number')
+      Route.get('/users', 'UsersController.index')
+      Route.get('/users', 'V2UsersController.index').version(2)
+      Route.get('/health', 'HealthController.index')
+      expect(Route.resolve('/posts/1', 'GET').handler).to.equal('PostsController.show')
+    })
+
+    it('should resolve route defined for the requested version', function () {
+      Route.get('/users', 'V1UsersController.index').version(1)
+      Route.get('/users', 'UsersController.index').version('2+')
+      expect(Route.resolve('/users', 'GET', 'localhost', 1).handler).to.equal('V1UsersController.index')
+      expect(Route.resolve('/users', 'GET', 'localhost', 3).handler).to.equal('UsersController.index')
+    })
+
+    it('should fallback to the highest lower version when route is not defined for the version', function () {
+      Route.get('/posts', 'V1PostsController.index').version(1)
+      Route.get('/posts', 'V2PostsController.index').version(2)
+      Route.get('/posts', 'V5PostsController.index').version(5)
+      expect(Route.resolve('/posts', 'GET', 'localhost', 4).handler).to.equal('V2PostsController.index')
+    })
+
+    it('should not resolve route defined for higher versions only', function () {
+      Route.get('/feed', 'FeedController.index').version('3+')
+      expect(Route.resolve('/feed', 'GET', 'localhost', 2)).deep.equal({})
+    })
+
+    it('should not return allowed verbs of routes defined for higher versions only', function () {
+      Route.get('/feed', 'FeedController.index').version(3)
+      Route.post('/feed', 'FeedController.store').version(2)
+      expect(Route.resolve('/feed', 'PUT', 'localhost', 2)).deep.equal({allowedVerbs: ['POST']})
+      expect(Route.resolve('/feed', 'POST', 'localhost', 1)).deep.equal({})
+    })
+
+    it('should prefer unversioned routes over lower versions', function () {
+      Route.get('/users', 'V1UsersController.index').version(1)
+      Route.get('/users', 'UsersController.index')
+      expect(Route.resolve('/users', 'GET', 'localhost', 2).handler).to.equal('UsersController.index')
+    })
+
+    it('should resolve versioned url without the version prefix', function () {
+      Route.get('/users/:id', 'UsersController.show').version(2)
+      const user = Route.resolve('/v2/users/1', 'GET', 'localhost', 2)
+      expect(user.handler).to.equal('UsersController.show')
+      expect(user.params).deep.equal({id: '1'})
+    })
+
+    it('should keep resolving routes prefixed with version via groups', function () {
+      Route.group('v2', function () {
+        Route.get('/users', 'UsersController.index')
+      }).prefix('/v2')
+      expect(Route.resolve('/v2/users', 'GET', 'localhost', 2).handler).to.equal('UsersController.index')
+    })
+
+    it('should prefer routes prefixed with version via groups over unversioned routes', function () {
+      Route.get('/users', 'UsersController.index')
+      Route.group('v1', function () {
+        Route.get('/users', 'V1UsersController.index')
+      }).prefix('/v1')
+      expect(Route.resolve('/v1/users', 'GET', 'localhost', 1).handler).to.equal('V1UsersController.index')
+    })
+
+    it('should not resolve unversioned routes without the version prefix', function () {
+      Route.get('/users', 'UsersController.index')
+      expect(Route.resolve('/v1/users', 'GET', 'localhost', 1)).deep.equal({})
+    })
+
+    it('should resolve fallback route when no route matches the url', function () {
+      Route.get('/users', 'UsersController.index')
+      Route.fallback('SpaController.index')
+      expect(Route.resolve('/users', 'GET').handler).to.equal('UsersController.index')
+      const fallback = Route.resolve('/dashboard/settings', 'GET')
+      expect(fallback.handler).to.equal('SpaController.index')
+      expect(fallback.params).deep.equal({fallback: 'dashboard/settings'})
+    })
+
+    it('should not use fallback route when url is registered for other verbs', function () {
+      Route.post('/users', 'UsersController.store')
+      Route.fallback('SpaController.index')
+      expect(Route.resolve('/users', 'GET')).deep.equal({allowedVerbs: ['POST']})
+    })
+
+    it('should resolve group fallback for urls under the group prefix', function () {
+      Route.fallback('SpaController.index')
+      Route.group('api', function () {
+        Route.get('/users', 'UsersController.index')
+        Route.fallback('ApiController.notFound')
+      }).prefix('/api')
+      expect(Route.resolve('/api/posts', 'GET').handler).to.equal('ApiController.notFound')
+      expect(Route.resolve('/api', 'POST').handler).to.equal('ApiController.notFound')
+      expect(Route.resolve('/posts', 'GET').handler).to.equal('SpaController.index')
+    })
+
+    it('should apply group prefix to fallback registered via group', function () {
+      Route.group('api', function () {
+        Route.get('/users', 'UsersController.index')
+      }).prefix('/api').fallback('ApiController.notFound')
+      Route.fallback('SpaController.index')
+      const fallback = Route.resolve('/api/posts', 'GET')
+      expect(fallback.handler).to.equal('ApiController.notFound')
+      expect(fallback.group).to.equal('api')
+      expect(Route.resolve('/posts', 'GET').handler).to.equal('SpaController.index')
+    })
+
+    it('should skip routes whose params do not satisfy the constraints', function () {
+      Route.get('/users/:id', 'UsersController.show').where('id', /\d+/)
+      Route.get('/users/:username', 'UsersController.profile')
+      const user = Route.resolve('/users/1', 'GET')
+      const profile = Route.resolve('/users/virk', 'GET')
+      expect(user.handler).to.equal('UsersController.show')
+      expect(profile.handler).to.equal('UsersController.profile')
+    })
+
+    it('should not match param partially against the constraint', function () {
+      Route.get('/users/:id', 'UsersController.show').where('id', /\d+/)
+      expect(Route.resolve('/users/1a', 'GET')).deep.equal({})
+    })
+
+    it('should cast params using constraint presets', function () {
+      Route.get('/users/:id/:slug', 'UsersController.show').where({id: 'number', slug: 'slug'})
+      const user = Route.resolve('/users/1/hello-world', 'GET')
+      expect(user.params).deep.equal({id: 1, slug: 'hello-world'})
+      expect(Route.resolve('/users/1/Hello_World', 'GET')).deep.equal({})
+    })
+
+    it('should cast params using a custom cast method', function () {
+      Route.get('/posts/:tags', 'PostsController.index').where('tags', /[a-z,]+/, (value) => value.split(','))
+      const posts = Route.resolve('/posts/js,node', 'GET')
+      expect(posts.params.tags).deep.equal(['js', 'node'])
+    })
+
+    it('should match uuid params using the uuid preset', function () {
+      Route.get('/orders/:order', 'OrdersController.show').where('order', 'uuid')
+      expect(Route.resolve('/orders/1', 'GET')).deep.equal({})
+      const order = Route.resolve('/orders/3b241101-e2bb-4255-8caf-4136c566a962', 'GET')
+      expect(order.params.order).to.equal('3b241101-e2bb-4255-8caf-4136c566a962')
+    })
+
+    it('should apply group constraints without overriding route constraints', function () {
+      Route.group('admin', function () {
+        Route.get('/users/:id', 'UsersController.show')
+        Route.get('/posts/:id', 'PostsController.show').where('id', 'slug')
+      }).where('id', 'number')
+      expect(Route.resolve('/users/1', 'GET').params.id).to.equal(1)
+      expect(Route.resolve('/users/foo', 'GET')).deep.equal({})
+      expect(Route.resolve('/posts/hello-world', 'GET').params.id).to.equal('hello-world')
+    })
+
+    it('should apply constraints to resource routes', function () {
+      Route.resource('users', 'UsersController').where('id', 'number')
+      expect(Route.resolve('/users/1', 'GET').params.id).to.equal(1)
+      expect(Route.resolve('/users/create', 'GET').name).to.equal('users.create')
+      expect(Route.resolve('/users/foo', 'GET')).deep.equal({})
+    })
+
+    it('should throw an error when constraint preset does not exists', function () {
+      const fn = () => Route.get('/users/:id', 'UsersController.show').where('id', 'integer')
+      expect(fn).to.throw('InvalidArgumentException: E_INVALID_PARAMETER: integer is not a valid route constraint')
+    })
+
+    it('should return binders for the params of resolved route', function () {
+      const userBinder = function () {}
+      Route.bind('user', userBinder)
+      Route.get('/users/:user/posts/:post', 'PostsController.show')
+      const post = Route.resolve('/users/1/posts/2', 'GET')
+      expect(post.binders).deep.equal({user: userBinder})
+    })
+
+    it('should bind resource params using resource names', function () {
+      const postBinder = function () {}
+      const commentBinder = function () {}
+      Route.bind('post', postBinder)
+      Route.bind('comments', commentBinder)
+      Route.resource('post.comments', 'CommentsController')
+      const comment = Route.resolve('/post/1/comments/2', 'GET')
+      expect(comment.binders).deep.equal({post_id: postBinder, id: commentBinder})
+    })
+
+    it('should return allowed verbs when url is registered for other verbs', function () {
+      Route.get('/users', 'UsersController.index')
+      Route.post('/users', 'UsersController.store')
+      const users = Route.resolve('/users', 'DELETE')
+      expect(users).deep.equal({allowedVerbs: ['GET', 'HEAD', 'POST']})
+    })
+
     it('should resolve a given route', function () {
       Route.get('/', 'SomeController.method')
       const home = Route.resolve('/', 'GET')
@@ -923,6 +1573,33 @@ describe('Route', function () {
       expect(home).deep.equal({})
     })
 
+    it('should return domain params along with route params', function () {
+      Route.group('accounts', function () {
+        Route.get('/projects/:project', 'ProjectsController.show')
+      }).domain(':account.example.com')
+      const project = Route.resolve('/projects/1', 'GET', 'virk.example.com')
+      expect(project.params).deep.equal({account: 'virk', project: '1'})
+    })
+
+    it('should resolve routes without domain when host matches a registered domain', function () {
+      Route.get('/login', 'SessionsController.create')
+      Route.group('accounts', function () {
+        Route.get('/', 'AccountsController.index')
+      }).domain(':account.example.com')
+      const login = Route.resolve('/login', 'GET', 'virk.example.com')
+      expect(login.handler).to.equal('SessionsController.create')
+      expect(login.params).deep.equal({})
+    })
+
+    it('should give priority to domain routes over routes without domain', function () {
+      Route.get('/', 'HomeController.index')
+      Route.group('accounts', function () {
+        Route.get('/', 'AccountsController.index')
+      }).domain(':account.example.com')
+      expect(Route.resolve('/', 'GET', 'virk.example.com').handler).to.equal('AccountsController.index')
+      expect(Route.resolve('/', 'GET', 'example.com').handler).to.equal('HomeController.index')
+    })
+
     it('should resolve routes registered as resource', function () {
       Route.resource('users', 'UsersController')
       const usersIndex = Route.resolve('/users', 'GET')
@@ -1011,6 +1688,54 @@ describe('Route', function () {
       expect(withJson.params.format).to.equal('.json')
       expect(withHtml.params.format).to.equal('.html')
     })
+
+    it('should give priority to the route registered first when multiple routes match', function () {
+      Route.get('/users/:id', 'UsersController.show')
+      Route.get('/users/create', 'UsersController.create')
+      const user = Route.resolve('/users/create', 'GET')
+      expect(user.handler).to.equal('UsersController.show')
+      expect(user.params).deep.equal({id: 'create'})
+    })
+
+    it('should resolve static routes without matching the case', function () {
+      Route.get('/users/profile', 'UsersController.profile')
+      const profile = Route.resolve('/Users/PROFILE', 'GET')
+      expect(profile.handler).to.equal('UsersController.profile')
+    })
+
+    it('should resolve static routes with a trailing slash', function () {
+      Route.get('/users/profile', 'UsersController.profile')
+      const profile = Route.resolve('/users/profile/', 'GET')
+      expect(profile.handler).to.equal('UsersController.profile')
+    })
+
+    it('should resolve routes registered with a trailing slash', function () {
+      Route.get('/users/', 'UsersController.index')
+      expect(Route.resolve('/users', 'GET').handler).to.equal('UsersController.index')
+      expect(Route.resolve('/users/', 'GET').handler).to.equal('UsersController.index')
+    })
+
+    it('should not resolve a route once it has been removed', function () {
+      Route.get('/users', 'UsersController.index').as('users')
+      expect(Route.resolve('/users', 'GET').handler).to.equal('UsersController.index')
+      Route.remove('users')
+      expect(Route.resolve('/users', 'GET')).deep.equal({})
+    })
+
+    it('should resolve a route with formats added after it was resolved once', function () {
+      Route.get('/users', 'UsersController.index')
+      expect(Route.resolve('/users.json', 'GET')).deep.equal({})
+      Route.formats(['json'])
+      expect(Route.resolve('/users.json', 'GET').handler).to.equal('UsersController.index')
+    })
+
+    it('should resolve routes with dynamic domains', function () {
+      Route.group('accounts', function () {
+        Route.get('/', 'AccountsController.index')
+      }).domain(':account.example.com')
+      const home = Route.resolve('/', 'GET', 'virk.example.com')
+      expect(home.handler).to.equal('AccountsController.index')
+    })
   })
 
   context('Building Url', function () {
@@ -1047,6 +1772,14 @@ describe('Route', function () {
       expect(url).to.equal('amanvirk.me/hello-world')
     })
 
+    it('should make absolute url for route registered inside dynamic domain', function () {
+      Route.group('accounts', function () {
+        Route.get('/projects/:project', 'ProjectsController.show').as('project')
+      }).domain(':account.example.com')
+      const url = Route.url('project', {account: 'virk', project: 1}, {protocol: 'https'})
+      expect(url).to.equal('https://virk.example.com/projects/1')
+    })
+
     it('should make url for route registered as a resource', function () {
       Route.resource('users', 'UsersController')
       const url = Route.url('users.index')
@@ -1097,6 +1830,33 @@ describe('Route', function () {
       expect(requestPassed).deep.equal({foo: 'bar'})
     })
 
+    it('should store view and static data on the route', function () {
+      Route.view('/about', 'pages.about', {title: 'About'})
+      const routes = Route.routes()
+      expect(routes[0].verb).deep.equal(['GET', 'HEAD'])
+      expect(routes[0].handler).to.equal(null)
+      expect(routes[0].view).deep.equal({name: 'pages.about', data: {title: 'About'}})
+    })
+
+    it('should store redirect url and status on the route', function () {
+      Route.redirect('/posts/:id', 'articles.show')
+      Route.permanentRedirect('/blog', 'https://blog.adonisjs.com')
+      const routes = Route.routes()
+      expect(routes[0].handler).to.equal(null)
+      expect(routes[0].redirect).deep.equal({to: 'articles.show', status: 302})
+      expect(routes[1].redirect).deep.equal({to: 'https://blog.adonisjs.com', status: 301})
+    })
+
+    it('should cache view and redirect routes', function () {
+      Route.view('/about', 'pages.about', {title: 'About'})
+      Route.redirect('/home', '/')
+      const cache = JSON.parse(JSON.stringify(Route.toCache()))
+      Route.new()
+      Route.fromCache(cache)
+      expect(Route.resolve('/about', 'GET').view).deep.equal({name: 'pages.about', data: {title: 'About'}})
+      expect(Route.resolve('/home', 'GET').redirect).deep.equal({to: '/', status: 302})
+    })
+
     it('should be able to bind middleware to the resource', function () {
       Route.resource('tasks', 'TaskController').middleware('auth')
       const routes = Route.routes()
@@ -108,6 +108,126 @@ describe('Server', function () {
     expect(res.body.rendered).to.equal(true)
   })
 
+  it('should return 405 with allowed verbs when route is not registered for the request verb', function * () {
+    Route.get('/', function * (request, response) {
+      response.send({rendered: true})
+    })
+    Route.put('/', function * (request, response) {
+      response.send({rendered: true})
+    })
+    const testServer = http.createServer(this.server.handle.bind(this.server))
+    const res = yield supertest(testServer).post('/').expect(405)
+    expect(res.headers.allow).to.equal('GET, HEAD, PUT')
+  })
+
+  it('should return 404 when url is not registered for any verb', function * () {
+    Route.get('/', function * (request, response) {
+      response.send({rendered: true})
+    })
+    const testServer = http.createServer(this.server.handle.bind(this.server))
+    yield supertest(testServer).post('/users').expect(404)
+  })
+
+  it('should respond with 422 and validation errors for json requests', function * () {
+    Route.get('/users', function * (request, response) {
+      yield request.validate({email: 'required|email'})
+      response.send({validated: true})
+    })
+    const testServer = http.createServer(this.server.handle.bind(this.server))
+    const res = yield supertest(testServer).get('/users?email=foo').set('Accept', 'application/json').expect(422)
+    expect(res.body.errors).deep.equal([{field: 'email', validation: 'email', message: 'email validation failed on email'}])
+  })
+
+  it('should respond to OPTIONS request with verbs registered for the url', function * () {
+    Route.get('/', function * (request, response) {
+      response.send({rendered: true})
+    })
+    Route.post('/', function * (request, response) {
+      response.send({rendered: true})
+    })
+    const testServer = http.createServer(this.server.handle.bind(this.server))
+    const res = yield supertest(testServer).options('/').expect(204)
+    expect(res.headers.allow).to.equal('GET, HEAD, POST, OPTIONS')
+  })
+
+  it('should call OPTIONS route when registered for the url', function * () {
+    Route.get('/', function * (request, response) {
+      response.send({rendered: true})
+    })
+    Route.options('/', function * (request, response) {
+      response.send({options: true})
+    })
+    const testServer = http.createServer(this.server.handle.bind(this.server))
+    const res = yield supertest(testServer).options('/').expect(200)
+    expect(res.body.options).to.equal(true)
+  })
+
+  it('should set cors headers for a preflight request using route options', function * () {
+    Route.post('/', function * (request, response) {
+      response.send({rendered: true})
+    }).cors({origin: true})
+    const testServer = http.createServer(this.server.handle.bind(this.server))
+    const res = yield supertest(testServer)
+      .options('/')
+      .set('Origin', 'http://example.com')
+      .set('Access-Control-Request-Method', 'POST')
+      .expect(204)
+    expect(res.headers['access-control-allow-origin']).to.equal('http://example.com')
+    expect(res.headers['access-control-allow-methods']).to.equal('POST')
+  })
+
+  it('should resolve route for version defined via header or accept media type', function * () {
+    Route.get('/users', function * (request, response) {
+      response.send('v1')
+    }).version(1)
+    Route.get('/users', function * (request, response) {
+      response.send('v2')
+    }).version(2)
+    const testServer = http.createServer(this.server.handle.bind(this.server))
+    const v1 = yield supertest(testServer).get('/users').set('X-Api-Version', '1').expect(200)
+    const v2 = yield supertest(testServer).get('/users').set('Accept', 'application/vnd.app.v2+json').expect(200)
+    const prefixed = yield supertest(testServer).get('/v1/users').expect(200)
+    expect(v1.text).to.equal('v1')
+    expect(v2.text).to.equal('v2')
+    expect(prefixed.text).to.equal('v1')
+  })
+
+  it('should redirect to a named route using params of the matched route', function * () {
+    Route.redirect('/posts/:id', 'articles.show')
+    Route.get('/articles/:id', 'ArticlesController.show').as('articles.show')
+    const testServer = http.createServer(this.server.handle.bind(this.server))
+    yield supertest(testServer).get('/posts/1').expect('Location', '/articles/1').expect(302)
+  })
+
+  it('should redirect permanently to an absolute url', function * () {
+    Route.permanentRedirect('/blog', 'https://blog.adonisjs.com')
+    const testServer = http.createServer(this.server.handle.bind(this.server))
+    yield supertest(testServer).get('/blog').expect('Location', 'https://blog.adonisjs.com').expect(301)
+  })
+
+  it('should resolve route params using registered binders', function * () {
+    Route.bind('user', function * (id) {
+      return {id: Number(id), username: 'virk'}
+    })
+    Route.get('/users/:user', function * (request, response) {
+      response.send({user: request.param('user')})
+    })
+    const testServer = http.createServer(this.server.handle.bind(this.server))
+    const res = yield supertest(testServer).get('/users/1').expect(200)
+    expect(res.body.user).deep.equal({id: 1, username: 'virk'})
+  })
+
+  it('should return 404 when binder does not return a value', function * () {
+    Route.bind('user', function (id) {
+      return Promise.resolve(null)
+    })
+    Route.get('/users/:user', function * (request, response) {
+      response.send({user: request.param('user')})
+    })
+    const testServer = http.createServer(this.server.handle.bind(this.server))
+    yield supertest(testServer).get('/users/1').expect(404)
+  })
+
   it('should invoke route for verb defined using _method', function * () {
     Route.put('/', function * (request, response) {
       response.send({rendered: true})
@@ -134,7 +254,7 @@ describe('Server', function () {
     const AlternateRequest = new RequestBuilder(customConfig)
     const server = new Server(AlternateRequest, Response, Route, Helpers, Middleware, staticServer, Session, customConfig, Event)
     const testServer = http.createServer(server.handle.bind(server))
-    yield supertest(testServer).get('/?_method=PUT').expect(404)
+    yield supertest(testServer).get('/?_method=PUT').expect(405)
   })
 
   it('should log warning when allowMethodSpoofing is not turned on but trying to spoof method', function * () {
@@ -154,7 +274,7 @@ describe('Server', function () {
     }
     const server = new Server(new RequestBuilder(customConfig), Response, Route, Helpers, Middleware, staticServer, Session, customConfig, Event)
     const testServer = http.createServer(server.handle.bind(server))
-    yield supertest(testServer).get('/?_method=PUT').expect(404)
+    yield supertest(testServer).get('/?_method=PUT').expect(405)
     inspect.restore()
     expect(inspect.output.join('')).to.match(/You are making use of method spoofing/)
   })
@@ -195,6 +315,14 @@ describe('Server', function () {
     expect(res.text).to.equal('2')
   })
 
+  it('should call global middleware before the fallback route', function * () {
+    Middleware.global(['App/Http/Middleware/Global'])
+    Route.fallback('UserController.index')
+    const testServer = http.createServer(this.server.handle.bind(this.server))
+    const res = yield supertest(testServer).get('/unknown/url').expect(200)
+    expect(res.text).to.equal('2')
+  })
+
   it('should catch errors created by global middleware', function * () {
     Middleware.global(['App/Http/Middleware/GlobalCatch'])
     Route.get('/', 'UserController.index')
@@ -0,0 +1,121 @@
+'use strict'
+
+/**
+ * adonis-framework
+ *
+ * (c) Harminder Virk <virk@adonisjs.com>
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+*/
+
+const UrlSigner = require('../../src/Route/signer')
+const Encryption = require('../../src/Encryption')
+const Signed = require('../../src/Middleware/Signed')
+const chai = require('chai')
+const expect = chai.expect
+require('co-mocha')
+
+const makeConfig = function (appKey) {
+  return {
+    get: function (key) {
+      return key === 'app.appKey' ? appKey : null
+    }
+  }
+}
+
+const Config = makeConfig('a-32-characters-long-secret-key!')
+
+const makeSigner = function (config) {
+  return new UrlSigner(config, new Encryption(config))
+}
+
+describe('UrlSigner', function () {
+  it('should throw an error when app key is not defined', function () {
+    const fn = function () {
+      return new UrlSigner({get: function () {}}, {})
+    }
+    expect(fn).to.throw(/E_MISSING_APPKEY/)
+  })
+
+  it('should append signature to a given url', function () {
+    const signer = makeSigner(Config)
+    const url = signer.sign('/unsubscribe/1')
+    expect(url).to.match(/^\/unsubscribe\/1\?signature=[a-f0-9]{64}$/)
+  })
+
+  it('should keep existing query string when signing a url', function () {
+    const signer = makeSigner(Config)
+    const url = signer.sign('/unsubscribe/1?list=news')
+    expect(url).to.match(/^\/unsubscribe\/1\?list=news&signature=[a-f0-9]{64}$/)
+  })
+
+  it('should verify a signed url', function () {
+    const signer = makeSigner(Config)
+    expect(signer.verify(signer.sign('/unsubscribe/1?list=news'))).to.equal(true)
+  })
+
+  it('should verify path of an absolute signed url', function () {
+    const signer = makeSigner(Config)
+    const url = signer.sign('http://virk.adonisjs.com/unsubscribe/1')
+    expect(signer.verify(url.replace('http://virk.adonisjs.com', ''))).to.equal(true)
+  })
+
+  it('should not verify a url without signature', function () {
+    const signer = makeSigner(Config)
+    expect(signer.verify('/unsubscribe/1')).to.equal(false)
+  })
+
+  it('should not verify a signature of different length', function () {
+    const signer = makeSigner(Config)
+    expect(signer.verify('/unsubscribe/1?signature=abc')).to.equal(false)
+  })
+
+  it('should not verify a tampered url', function () {
+    const signer = makeSigner(Config)
+    const url = signer.sign('/unsubscribe/1')
+    expect(signer.verify(url.replace('/1', '/2'))).to.equal(false)
+  })
+
+  it('should not verify a url signed using a different app key', function () {
+    const signer = makeSigner(Config)
+    const otherSigner = makeSigner(makeConfig('another-32-characters-long-key!!'))
+    expect(signer.verify(otherSigner.sign('/unsubscribe/1'))).to.equal(false)
+  })
+
+  it('should verify a url which has not been expired', function () {
+    const signer = makeSigner(Config)
+    const url = signer.sign('/password/reset/1', 60)
+    expect(url).to.match(/\?expires=\d+&signature=/)
+    expect(signer.verify(url)).to.equal(true)
+  })
+
+  it('should not verify an expired url', function () {
+    const signer = makeSigner(Config)
+    const expires = Math.floor(Date.now() / 1000) - 10
+    const url = signer.sign(`/password/reset/1?expires=${expires}`)
+    expect(signer.verify(url)).to.equal(false)
+  })
+
+  it('should not verify a url when expires is changed', function () {
+    const signer = makeSigner(Config)
+    const url = signer.sign('/password/reset/1', 60)
+    expect(signer.verify(url.replace(/expires=\d+/, 'expires=9999999999'))).to.equal(false)
+  })
+
+  it('should throw 403 from signed middleware when signature is invalid', function * () {
+    const signed = new Signed()
+    const request = {
+      hasValidSignature: function () {
+        return false
+      }
+    }
+    try {
+      yield signed.handle(request, {}, function * () {})
+      expect(true).to.equal(false)
+    } catch (e) {
+      expect(e.name).to.equal('HttpException')
+      expect(e.status).to.equal(403)
+    }
+  })
+})
@@ -0,0 +1,161 @@
+'use strict'
+
+/**
+ * adonis-framework
+ *
+ * (c) Harminder Virk <virk@adonisjs.com>
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+*/
+
+const Storage = require('../../src/Storage')
+const Drivers = require('../../src/Storage/Drivers')
+const File = require('../../src/File')
+const Ioc = require('adonis-fold').Ioc
+const chai = require('chai')
+const expect = chai.expect
+const path = require('path')
+const os = require('os')
+const fs = require('fs')
+
+require('co-mocha')
+
+const storageRoot = path.join(os.tmpdir(), 'adonis-storage')
+
+const makeConfig = function (filesystem) {
+  return {
+    get: function (key) {
+      return key === 'filesystem' ? filesystem : null
+    }
+  }
+}
+
+const Helpers = {
+  storagePath: function (toFile) {
+    return path.join(storageRoot, toFile)
+  }
+}
+
+const readStream = function (stream) {
+  return new Promise((resolve, reject) => {
+    const chunks = []
+    stream.on('data', (chunk) => chunks.push(chunk))
+    stream.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')))
+    stream.on('error', reject)
+  })
+}
+
+describe('Storage', function () {
+  it('should return driver for the default disk', function () {
+    const storage = new Storage(makeConfig({default: 'memory', disks: {memory: {driver: 'memory'}}}), Helpers)
+    expect(storage.disk() instanceof Drivers.memory).to.equal(true)
+    expect(storage.disk()).to.equal(storage.disk('memory'))
+  })
+
+  it('should throw an error when disk is not defined', function () {
+    const storage = new Storage(makeConfig({disks: {}}), Helpers)
+    const fn = function () {
+      return storage.disk('s3')
+    }
+    expect(fn).to.throw('RuntimeException: E_INVALID_DISK: s3 disk is not defined inside config/filesystem.js file')
+  })
+
+  it('should throw an error when driver is not defined', function () {
+    const storage = new Storage(makeConfig({disks: {backup: {driver: 'dropbox'}}}), Helpers)
+    const fn = function () {
+      return storage.disk('backup')
+    }
+    expect(fn).to.throw('RuntimeException: E_INVALID_STORAGE_DRIVER: Unable to locate dropbox storage driver')
+  })
+
+  it('should be able to extend storage with a new driver', function () {
+    const dropbox = {}
+    Storage.extend('dropbox', dropbox)
+    const storage = new Storage(makeConfig({disks: {backup: {driver: 'dropbox'}}}), Helpers)
+    expect(storage.disk('backup')).to.equal(dropbox)
+  })
+
+  it('should make url of s3 files using the endpoint', function () {
+    const S3Driver = Drivers.s3
+    const s3 = new S3Driver({bucket: 'uploads', region: 'us-east-1', endpoint: 'http://localhost:9000/'})
+    expect(s3.getUrl('avatars/1.png')).to.equal('http://localhost:9000/uploads/avatars/1.png')
+    const aws = new S3Driver({bucket: 'uploads', region: 'us-east-1'})
+    expect(aws.getUrl('avatars/1.png')).to.equal('https://uploads.s3.amazonaws.com/avatars/1.png')
+  })
+
+  context('Drivers', function () {
+    const drivers = ['local', 'memory']
+    drivers.forEach(function (driverName) {
+      it(`should put, stream and delete files using ${driverName} driver`, function * () {
+        const storage = new Storage(makeConfig({disks: {test: {driver: driverName, root: 'uploads', baseUrl: '/uploads'}}}), Helpers)
+        const file = storage.file('avatars/1.txt', 'test')
+        yield storage.disk('test').put('avatars/1.txt', 'hello')
+        expect(yield file.exists()).to.equal(true)
+        expect(yield readStream(file.stream())).to.equal('hello')
+        expect(file.url()).to.equal('/uploads/avatars/1.txt')
+        yield file.delete()
+        expect(yield file.exists()).to.equal(false)
+      })
+
+      it(`should put readable streams using ${driverName} driver`, function * () {
+        const storage = new Storage(makeConfig({disks: {test: {driver: driverName, root: 'uploads'}}}), Helpers)
+        const logoPath = path.join(__dirname, './uploads/npm-logo.svg')
+        yield storage.disk('test').put('logo.svg', fs.createReadStream(logoPath))
+        expect(yield readStream(storage.file('logo.svg', 'test').stream())).to.equal(fs.readFileSync(logoPath, 'utf8'))
+        yield storage.file('logo.svg', 'test').delete()
+      })
+    })
+
+    it('should not access files outside the root using local driver', function * () {
+      const storage = new Storage(makeConfig({disks: {test: {driver: 'local', root: 'uploads'}}}), Helpers)
+      const errors = []
+      for (const location of ['../secrets.txt', 'avatars/../../secrets.txt', '.']) {
+        try {
+          yield storage.disk('test').put(location, 'hello')
+        } catch (error) {
+          errors.push(error.message)
+        }
+      }
+      expect(errors).deep.equal([
+        'InvalidArgumentException: E_INVALID_PARAMETER: ../secrets.txt is not a location inside the disk root',
+        'InvalidArgumentException: E_INVALID_PARAMETER: avatars/../../secrets.txt is not a location inside the disk root',
+        'InvalidArgumentException: E_INVALID_PARAMETER: . is not a location inside the disk root'
+      ])
+      expect(fs.existsSync(path.join(storageRoot, 'secrets.txt'))).to.equal(false)
+    })
+  })
+
+  context('File', function () {
+    beforeEach(function () {
+      this.storage = new Storage(makeConfig({default: 'memory', disks: {memory: {driver: 'memory', baseUrl: '/uploads'}}}), Helpers)
+      Ioc.bind('Adonis/Src/Storage', () => this.storage)
+      this.tmpPath = path.join(os.tmpdir(), 'adonis-storage-upload.svg')
+      fs.writeFileSync(this.tmpPath, fs.readFileSync(path.join(__dirname, './uploads/npm-logo.svg')))
+    })
+
+    it('should move uploaded file to the default disk', function * () {
+      const file = new File({name: 'npm-logo.svg', path: this.tmpPath, type: 'svg', size: 235}, {})
+      const storedFile = yield file.moveToDisk('avatars', 'logo.svg')
+      expect(file.moved()).to.equal(true)
+      expect(file.uploadPath()).to.equal('avatars/logo.svg')
+      expect(storedFile.url()).to.equal('/uploads/avatars/logo.svg')
+      expect(yield storedFile.exists()).to.equal(true)
+      expect(fs.existsSync(this.tmpPath)).to.equal(false)
+    })
+
+    it('should not move file failing validation', function * () {
+      const file = new File({name: 'npm-logo.svg', path: this.tmpPath, type: 'svg', size: 235}, {allowedExtensions: ['png']})
+      const storedFile = yield file.moveToDisk('avatars')
+      expect(storedFile).to.equal(null)
+      expect(file.errors()).to.equal('Uploaded file extension svg is not valid')
+      expect(yield this.storage.disk().exists('avatars/npm-logo.svg')).to.equal(false)
+    })
+
+    it('should only use the base name of the client name', function * () {
+      const file = new File({name: '../../npm-logo.svg', path: this.tmpPath, type: 'svg', size: 235}, {})
+      yield file.moveToDisk('avatars')
+      expect(file.uploadPath()).to.equal('avatars/npm-logo.svg')
+    })
+  })
+})
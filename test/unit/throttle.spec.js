@@ -0,0 +1,188 @@
+'use strict'
+
+/**
+ * adonis-framework
+ *
+ * (c) Harminder Virk <virk@adonisjs.com>
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+*/
+
+const chai = require('chai')
+const expect = chai.expect
+const _ = require('lodash')
+const Throttle = require('../../src/Throttle')
+const ThrottleMiddleware = require('../../src/Middleware/Throttle')
+const Stores = require('../../src/Throttle/Stores')
+const MemoryStore = Stores.memory
+const RedisStore = Stores.redis
+const RedisFactory = require('adonis-redis/src/RedisFactory')
+require('co-mocha')
+
+class Config {
+  constructor (throttle) {
+    this.config = {
+      throttle: _.merge({
+        redis: {
+          host: '127.0.0.1',
+          port: '6379',
+          keyPrefix: 'throttle-test:'
+        }
+      }, throttle)
+    }
+  }
+  get (key, defaultValue) {
+    const value = _.get(this.config, key)
+    return value === undefined ? defaultValue : value
+  }
+}
+
+const makeRequest = function (ip) {
+  return {
+    ip: function () {
+      return ip
+    }
+  }
+}
+
+const makeResponse = function () {
+  return {
+    headers: {},
+    header: function (key, value) {
+      this.headers[key] = value
+      return this
+    }
+  }
+}
+
+describe('Throttle', function () {
+  beforeEach(function () {
+    Throttle.stores = {}
+  })
+
+  it('should throw an error when store does not exists', function () {
+    const fn = function () {
+      return new Throttle(new Config({store: 'mongo'}))
+    }
+    expect(fn).to.throw('RuntimeException: E_INVALID_THROTTLE_STORE: Unable to locate mongo throttle store')
+  })
+
+  it('should use an extended store', function () {
+    const store = {}
+    Throttle.extend('custom', store)
+    const throttle = new Throttle(new Config({store: 'custom'}))
+    expect(throttle.store).to.equal(store)
+  })
+
+  it('should make key using request ip', function () {
+    const throttle = new Throttle(new Config())
+    expect(throttle.keyFor(makeRequest('10.0.0.1'))).to.equal('throttle:10.0.0.1')
+  })
+
+  it('should make key using custom key method defined inside config', function () {
+    const throttle = new Throttle(new Config({
+      key: function (request) {
+        return request.userId
+      }
+    }))
+    const request = makeRequest('10.0.0.1')
+    request.userId = 1
+    expect(throttle.keyFor(request)).to.equal('throttle:1')
+  })
+
+  it('should make separate keys for every route', function () {
+    const throttle = new Throttle(new Config())
+    const login = makeRequest('10.0.0.1')
+    login._route = {route: '/login'}
+    const tenant = makeRequest('10.0.0.1')
+    tenant._route = {route: '/dashboard', domain: ':tenant.example.com'}
+    expect(throttle.keyFor(login)).to.equal('throttle:/login:10.0.0.1')
+    expect(throttle.keyFor(tenant)).to.equal('throttle::tenant.example.com/dashboard:10.0.0.1')
+  })
+
+  context('Memory Store', function () {
+    it('should increment attempts for a given key', function * () {
+      const store = new MemoryStore()
+      yield store.hit('foo', 60)
+      const hit = yield store.hit('foo', 60)
+      expect(hit.attempts).to.equal(2)
+      expect(hit.ttl).to.equal(60)
+    })
+
+    it('should reset attempts once decay time has been passed', function * () {
+      const store = new MemoryStore()
+      yield store.hit('foo', 60)
+      store.hits.foo.resetAt = Date.now() - 1
+      const hit = yield store.hit('foo', 60)
+      expect(hit.attempts).to.equal(1)
+    })
+
+    it('should remove expired attempts of other keys', function * () {
+      const store = new MemoryStore()
+      yield store.hit('foo', 60)
+      store.hits.foo.resetAt = Date.now() - 1
+      store.pruneAt = 0
+      yield store.hit('bar', 60)
+      expect(store.hits).to.have.all.keys('bar')
+    })
+
+    it('should clear attempts for a given key', function * () {
+      const store = new MemoryStore()
+      yield store.hit('foo', 60)
+      yield store.clear('foo')
+      const hit = yield store.hit('foo', 60)
+      expect(hit.attempts).to.equal(1)
+    })
+  })
+
+  context('Redis Store @redis', function () {
+    before(function () {
+      this.redis = new RedisFactory(new Config().get('throttle.redis'), {}, false)
+    })
+
+    afterEach(function * () {
+      yield this.redis.del('foo')
+    })
+
+    it('should increment attempts for a given key and set expiry', function * () {
+      const store = new RedisStore({}, new Config(), RedisFactory)
+      yield store.hit('foo', 60)
+      const hit = yield store.hit('foo', 60)
+      expect(hit.attempts).to.equal(2)
+      expect(hit.ttl).to.be.within(1, 60)
+    })
+  })
+
+  context('Middleware', function () {
+    it('should set rate limit headers and call next', function * () {
+      const middleware = new ThrottleMiddleware(new Throttle(new Config()))
+      const response = makeResponse()
+      let nextCalled = false
+      const next = function * () {
+        nextCalled = true
+      }
+      yield middleware.handle(makeRequest('10.0.0.1'), response, next(), '10', '1')
+      expect(nextCalled).to.equal(true)
+      expect(response.headers['X-RateLimit-Limit']).to.equal(10)
+      expect(response.headers['X-RateLimit-Remaining']).to.equal(9)
+    })
+
+    it('should throw 429 with retry after header when attempts are exceeded', function * () {
+      const middleware = new ThrottleMiddleware(new Throttle(new Config()))
+      const request = makeRequest('10.0.0.2')
+      yield middleware.handle(request, makeResponse(), function * () {}, '1', '2')
+      const response = makeResponse()
+      try {
+        yield middleware.handle(request, response, function * () {}, '1', '2')
+        expect(true).to.equal(false)
+      } catch (e) {
+        expect(e.name).to.equal('HttpException')
+        expect(e.status).to.equal(429)
+        expect(response.headers['Retry-After']).to.equal(120)
+        expect(response.headers['X-RateLimit-Remaining']).to.equal(0)
+        expect(response.headers['X-RateLimit-Reset']).to.be.a('number')
+      }
+    })
+  })
+})
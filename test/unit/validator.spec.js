@@ -0,0 +1,117 @@
+'use strict'
+
+/**
+ * adonis-framework
+ *
+ * (c) Harminder Virk <virk@adonisjs.com>
+ *
+ * For the full copyright and license information, please view the LICENSE
+ * file that was distributed with this source code.
+*/
+
+const Validator = require('../../src/Validator')
+const chai = require('chai')
+const expect = chai.expect
+
+const failedRules = function (errors) {
+  return errors.all().map((error) => `${error.field}.${error.validation}`)
+}
+
+describe('Validator', function () {
+  it('should return an empty error bag when data satisfies the rules', function () {
+    const errors = new Validator().validate({email: 'doe@example.com', age: 20}, {email: 'required|email', age: 'min:18|max:60'})
+    expect(errors.fails()).to.equal(false)
+    expect(errors.all()).deep.equal([])
+  })
+
+  it('should return errors for failed rules in the order they were defined', function () {
+    const errors = new Validator().validate({email: 'doe', name: ''}, {email: 'required|email|min:6', name: 'required'})
+    expect(failedRules(errors)).deep.equal(['email.email', 'email.min', 'name.required'])
+    expect(errors.first('email')).to.equal('email validation failed on email')
+  })
+
+  it('should skip rules other than required when value is missing', function () {
+    const errors = new Validator().validate({}, {email: 'email|min:6', role: 'in:admin,user'})
+    expect(errors.fails()).to.equal(false)
+  })
+
+  it('should compare numbers by value and strings or arrays by length', function () {
+    const errors = new Validator().validate({age: 12, name: 'doe', tags: ['a', 'b', 'c']}, {
+      age: 'min:18',
+      name: 'min:3',
+      tags: 'max:2'
+    })
+    expect(failedRules(errors)).deep.equal(['age.min', 'tags.max'])
+  })
+
+  it('should compare strings by their length', function () {
+    const errors = new Validator().validate({password: '999', zip: '12345'}, {password: 'min:6', zip: 'max:10'})
+    expect(failedRules(errors)).deep.equal(['password.min'])
+  })
+
+  it('should compare numeric strings by value when field has the numeric rule', function () {
+    const errors = new Validator().validate({age: '25', score: '9', count: 'ten'}, {
+      age: 'numeric|min:18|max:60',
+      score: 'numeric|min:10',
+      count: 'numeric'
+    })
+    expect(failedRules(errors)).deep.equal(['score.min', 'count.numeric'])
+  })
+
+  it('should keep pipes inside the regex rule', function () {
+    const errors = new Validator().validate({size: 'c', color: 'red'}, {
+      size: 'required|regex:^(a|b)$|max:1',
+      color: 'regex:^(red|blue)$'
+    })
+    expect(failedRules(errors)).deep.equal(['size.regex'])
+  })
+
+  it('should validate values using in and regex rules', function () {
+    const errors = new Validator().validate({role: 'guest', zip: '1234', code: 'a,b'}, {
+      role: 'in:admin,user',
+      zip: 'regex:^\\d{5}$',
+      code: ['regex:^[a-z],[a-z]$']
+    })
+    expect(failedRules(errors)).deep.equal(['role.in', 'zip.regex'])
+  })
+
+  it('should make sure field is confirmed', function () {
+    const errors = new Validator().validate({password: 'secret', password_confirmation: 'secrets'}, {password: 'confirmed'})
+    expect(failedRules(errors)).deep.equal(['password.confirmed'])
+  })
+
+  it('should validate nested values using dot notation', function () {
+    const errors = new Validator().validate({profile: {name: ''}}, {'profile.name': 'required'})
+    expect(errors.has('profile.name')).to.equal(true)
+    expect(errors.get('profile.name')).deep.equal(['required validation failed on profile.name'])
+  })
+
+  it('should validate every item of an array using *', function () {
+    const data = {users: [{email: 'doe@example.com'}, {email: 'foo'}], tags: ['news', 'food']}
+    const errors = new Validator().validate(data, {'users.*.email': 'required|email', 'tags.*': 'in:news,sports'})
+    expect(failedRules(errors)).deep.equal(['users.1.email.email', 'tags.1.in'])
+  })
+
+  it('should use custom messages defined for the field, the path or the rule', function () {
+    const data = {email: '', users: [{email: 'foo'}]}
+    const errors = new Validator().validate(data, {email: 'required', 'users.*.email': 'email'}, {
+      'email.required': 'Enter your email',
+      'users.*.email.email': 'Enter a valid email'
+    })
+    expect(errors.first('email')).to.equal('Enter your email')
+    expect(errors.first('users.0.email')).to.equal('Enter a valid email')
+  })
+
+  it('should be able to extend validator with custom rules', function () {
+    Validator.extend('even', (value) => value % 2 === 0, 'must be an even number')
+    const errors = new Validator().validate({count: 3}, {count: 'even'})
+    expect(errors.first('count')).to.equal('count must be an even number')
+  })
+
+  it('should throw an error when rule is not defined', function () {
+    const fn = function () {
+      return new Validator().validate({}, {email: 'required|mail'})
+    }
+    expect(fn).to.throw('InvalidArgumentException: E_INVALID_PARAMETER: mail is not a valid validation rule')
+  })
+})